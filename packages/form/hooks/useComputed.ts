@@ -0,0 +1,71 @@
+import { useEffect, useRef, useSyncExternalStore } from "react";
+import { mixed, type Schema } from "yup";
+import { useStableCallback } from "../../hooks";
+import { newId } from "../../utils";
+import type { FormContext } from "../types";
+
+/**
+ * A React hook for declaring a computed (derived) form field.
+ *
+ * The field value is derived from other fields and kept up to date by the field
+ * store whenever one of them changes. It is validated and serialized like any
+ * other field, but cannot be edited, is not tracked as dirty or touched, and is
+ * never stored in drafts. Changing `from` or `compute` (e.g., a closure over a
+ * prop) recomputes the value.
+ *
+ * @example
+ *     const total = useComputed(
+ *         ctx,
+ *         "total",
+ *         ["qty", "price"],
+ *         (qty, price) => Number(qty) * Number(price)
+ *     );
+ *
+ * @template T - The computed value type.
+ * @param ctx - The FormContext from useForm.
+ * @param name - The unique name/path for the computed field.
+ * @param from - Names of the fields the value is derived from.
+ * @param compute - Derives the value from the current values of `from`, in
+ *   order.
+ * @param schema - Optional Yup schema validating the computed value. Defaults
+ *   to `mixed()`.
+ * @returns The computed value.
+ */
+export function useComputed<T = unknown>(
+    ctx: FormContext,
+    name: string,
+    from: string[],
+    compute: (...values: unknown[]) => T,
+    schema: Schema<T> = mixed() as Schema<T>
+): T {
+    // Register field
+    const { name: form, fields } = ctx;
+    const idRef = useRef(`${form}-${name}-${newId()}`);
+    const computeFn = useStableCallback((values: unknown[]) =>
+        compute(...values)
+    );
+    fields.register(name, {
+        id: idRef.current,
+        value: undefined as T,
+        touched: false,
+        schema,
+        query: "absolute",
+        computedFrom: from,
+        compute: computeFn,
+    });
+
+    // Recompute when sources or the compute closure change
+    const fromKey = from.join("\n");
+    useEffect(() => {
+        fields.setComputed(name, fromKey ? fromKey.split("\n") : [], computeFn);
+    }, [fields, name, fromKey, compute, computeFn]);
+
+    // Subscribe to field store
+    const fieldSnap = useSyncExternalStore(
+        (fn) => fields.subscribe(name, fn),
+        () => fields.getSnapshot(name),
+        () => fields.getSnapshot(name)
+    );
+
+    return fieldSnap?.value as T;
+}
@@ -8,12 +8,26 @@ import {
     type ChangeEvent,
 } from "react";
 import { ValidationError, type Schema } from "yup";
-import { useDebounceCallback, useRefCallbackAdapter } from "../../hooks";
+import {
+    useDebounceCallback,
+    useRefCallbackAdapter,
+    useStableCallback,
+} from "../../hooks";
 import { useMasker } from "../../mask";
 import type { MaskOption } from "../../mask/types";
 import { newId } from "../../utils";
-import type { ErrorQuery, FormContext } from "../types";
-import { resolveYupDefault } from "../utils";
+import type { AsyncValidator, ErrorQuery, FormContext } from "../types";
+import {
+    asteriskPath,
+    composeParsed,
+    composeSchema,
+    flatternPath,
+    resolveAsyncResult,
+    resolveSchemaDeps,
+    resolveYupDefault,
+    siblingPath,
+    yupPath,
+} from "../utils";
 
 /**
  * Configuration options for the useField hook.
@@ -41,13 +55,33 @@ interface FieldOptions<T = unknown> {
 
     /**
      * How to query errors: "absolute" for the exact field path or "relative"
-     * for the root field.
+     * for the root field. Defaults to "relative", or to "absolute" for field
+     * array items (names with an index, e.g., "items.0.name"), which would
+     * otherwise report the errors of all items.
      */
     query: ErrorQuery;
 
+    /**
+     * Names of other fields this field's validation depends on. Keys used by
+     * the schema's `when` conditions and `ref` values are detected
+     * automatically.
+     */
+    deps: string[];
+
+    /** Whether the value must never be stored in form drafts. */
+    sensitive: boolean;
+
     /** Optional function to transform the field value before validation. */
     parse: (value: T) => unknown;
 
+    /**
+     * Optional asynchronous validator (e.g., "username is taken") run after the
+     * schema passes, on change and on form validation. Superseded runs are
+     * aborted through the given signal. When it rejects (e.g., a network
+     * error), the field keeps its previous errors.
+     */
+    asyncValidate: AsyncValidator<T>;
+
     /** Optional function to transform the field value for serialization. */
     serialize: (value: T) => unknown;
 
@@ -65,6 +99,10 @@ interface FieldOptions<T = unknown> {
  * value changes, triggers validation based on configuration, and provides
  * access to field state and error information.
  *
+ * Field validation runs against the whole form values, so `ref` and `when`
+ * rules resolve sibling fields (e.g., "confirm password equals password"), and
+ * the field is revalidated once any of its dependencies change.
+ *
  * @template T - The type of the field value. Defaults to unknown.
  * @param ctx - The FormContext from useForm, providing access to field and
  *   error stores.
@@ -83,7 +121,10 @@ interface FieldOptions<T = unknown> {
  *   - `errors`: Array of error messages for the field.
  *   - `isValid`: Whether the field currently passes validation.
  *   - `isFailed`: Whether the field has validation errors.
- *   - `reset`: Function to reset the field to its initial value.
+ *   - `isValidating`: Whether a validation (including `asyncValidate`) is in
+ *       progress.
+ *   - `reset`: Function to reset the field to its initial (or given) value; pass
+ *       `asInitial` to make the given value the new initial value.
  *   - `onChange`: Function to update the field value and trigger validation.
  */
 export function useField<T = unknown>(
@@ -99,8 +140,13 @@ export function useField<T = unknown>(
         initial = resolveYupDefault(schema),
         debounce = 0,
         trigger = "change",
-        query = "relative",
+        query = asteriskPath(name) !== flatternPath(name)
+            ? "absolute"
+            : "relative",
+        deps = [],
+        sensitive = false,
         parse,
+        asyncValidate,
         serialize,
         serializeFormData,
     } = options;
@@ -115,8 +161,10 @@ export function useField<T = unknown>(
         query,
         initial: initial as T,
         parse,
+        asyncValidate,
         serialize,
         serializeFormData,
+        sensitive,
     });
 
     // Subscribe to field and error stores
@@ -132,40 +180,97 @@ export function useField<T = unknown>(
     );
 
     // Stats
-    const [, startTransition] = useTransition();
+    const [isValidating, startTransition] = useTransition();
     const [ref, element] = useRefCallbackAdapter(useMasker(mask ?? null));
     const abortRef = useRef<AbortController | null>(null);
-    useDebounceCallback(fieldSnap?.value as T, debounce || 300, (v) => {
-        if (trigger !== "change" || !fieldSnap?.touched) return;
-
+    const validate = useStableCallback(() => {
         // Abort previous validation
         abortRef.current?.abort();
         const ctl = new AbortController();
         abortRef.current = ctl;
 
-        // Validation function
+        // Validation function, resolving `ref` and `when` against siblings
         startTransition(async () => {
             try {
-                const parsed = parse ? parse(v) : v;
-                await schema.validate(parsed, {
-                    strict: false,
-                    abortEarly: false,
-                    stripUnknown: true,
-                });
+                const all = fields.getFields();
+                await composeSchema(all).validateAt(
+                    yupPath(name),
+                    composeParsed(all),
+                    {
+                        strict: false,
+                        abortEarly: false,
+                        stripUnknown: true,
+                    }
+                );
 
                 if (ctl.signal.aborted) return;
+
+                // Server-side checks once the schema passes
+                const failure = asyncValidate
+                    ? resolveAsyncResult(
+                          await asyncValidate(
+                              fields.getField(name)?.value as T,
+                              { signal: ctl.signal }
+                          )
+                      )
+                    : undefined;
+                ctl.signal.throwIfAborted();
+
                 _errors.clear(name);
+                if (failure) {
+                    _errors.invalidate(name, failure.rule, failure.message);
+                }
             } catch (e) {
                 if (ctl.signal.aborted) return;
 
-                if (e instanceof ValidationError) {
-                    _errors.parseField(name, e);
-                } else {
-                    _errors.clear(name);
-                }
+                // Failed checks (e.g., network errors) keep previous errors
+                if (e instanceof ValidationError) _errors.parseField(name, e);
             }
         });
     });
+    useDebounceCallback(fieldSnap?.value as T, debounce || 300, () => {
+        if (trigger !== "change" || !fieldSnap?.touched) return;
+        validate();
+    });
+
+    // Revalidate when a dependency changes
+    const registered = fields.getField(name)?.schema;
+    const depsJoined = deps.join("\n");
+    const depsKey = useMemo(
+        () =>
+            Array.from(
+                new Set([
+                    ...(depsJoined ? depsJoined.split("\n") : []),
+                    ...(registered ? resolveSchemaDeps(registered) : []).map(
+                        (key) => siblingPath(name, key)
+                    ),
+                ])
+            )
+                .filter((dep) => dep !== name)
+                .join("\n"),
+        [registered, name, depsJoined]
+    );
+    useEffect(() => {
+        if (trigger !== "change" || !depsKey) return;
+
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const unsubscribes = depsKey.split("\n").map((dep) =>
+            fields.subscribe(dep, () => {
+                clearTimeout(timer);
+                timer = setTimeout(() => {
+                    const isChecked =
+                        !!fields.getField(name)?.touched ||
+                        !!_errors.getSnapshot(name, query);
+                    if (isChecked) validate();
+                }, debounce || 300);
+            })
+        );
+
+        return () => {
+            clearTimeout(timer);
+            unsubscribes.forEach((fn) => fn());
+        };
+    }, [fields, _errors, name, query, depsKey, trigger, debounce, validate]);
 
     // unmount
     useEffect(() => {
@@ -198,8 +303,8 @@ export function useField<T = unknown>(
 
     // API
     const reset = useCallback(
-        (value?: T) => {
-            fields.resetField(name, value);
+        (value?: T, asInitial?: boolean) => {
+            fields.resetField(name, value, asInitial);
             _errors.clear(name);
         },
         [fields, _errors, name]
@@ -229,6 +334,7 @@ export function useField<T = unknown>(
             errors,
             isValid,
             isFailed,
+            isValidating,
             reset,
             setValue,
             onChange,
@@ -242,6 +348,7 @@ export function useField<T = unknown>(
             errors,
             isValid,
             isFailed,
+            isValidating,
             reset,
             setValue,
             onChange,
@@ -0,0 +1,510 @@
+import {
+    useCallback,
+    useEffect,
+    useMemo,
+    useRef,
+    useSyncExternalStore,
+    useTransition,
+} from "react";
+import {
+    array,
+    ValidationError,
+    type AnyObject,
+    type ArraySchema,
+    type Schema,
+} from "yup";
+import { useDebounceCallback } from "../../hooks";
+import { newId } from "../../utils";
+import type { FormContext } from "../types";
+import {
+    asteriskPath,
+    composeParsed,
+    composeSchema,
+    flatternPath,
+    isWithinPath,
+    itemFields,
+    nestPaths,
+    readPath,
+    rootPath,
+} from "../utils";
+
+/**
+ * Configuration options for the useFieldArray hook.
+ *
+ * @template T - The item value type.
+ */
+interface FieldArrayOptions<T = unknown> {
+    /** The initial items. Defaults to an empty array. */
+    initial: T[];
+
+    /**
+     * Array schema with rules of the list itself, e.g. `array().min(1)`. Items
+     * are validated with the item schema. Defaults to `array()`.
+     */
+    schema: ArraySchema<T[] | undefined, AnyObject>;
+
+    /**
+     * Debounce time in milliseconds before triggering validation on changes.
+     * Defaults to 0.
+     */
+    debounce: number;
+
+    /**
+     * When to trigger validation: "change" for on-change validation or "submit"
+     * for form submission only.
+     */
+    trigger: "change" | "submit";
+}
+
+/**
+ * A single item of a field array.
+ *
+ * @template T - The item value type.
+ */
+export interface FieldArrayItem<T = unknown> {
+    /** A stable key for the item, suitable for React `key`. */
+    key: string;
+
+    /** The current index of the item. */
+    index: number;
+
+    /** The item value. */
+    value: T;
+}
+
+/**
+ * A React hook for managing a dynamic list of sub-forms.
+ *
+ * Items are registered as regular fields under their absolute paths: one field
+ * per key of an object item schema (e.g., "items.0.name") or one field per item
+ * otherwise (e.g., "tags.0"). Item components can therefore bind them with
+ * useField, and `validate()` of useForm composes the list as `array().of(...)`
+ * into the form schema, so list rules and every item are validated and item
+ * errors land on the item paths. The list itself is kept in a root field
+ * holding stable item keys; inserting, removing, moving and swapping items
+ * re-indexes both item fields and their errors.
+ *
+ * @example
+ *     const { items, append, errorsOf } = useFieldArray(
+ *         ctx,
+ *         "items",
+ *         object({ name: string().required(), qty: number().min(1) }),
+ *         { schema: array().min(1) }
+ *     );
+ *
+ *     append({ name: "", qty: 1 });
+ *     items.map(({ key, index }) => renderItem(key, index));
+ *
+ *     // Inside an item
+ *     const name = useField(ctx, `items.${index}.name`, string().required());
+ *     errorsOf(index, "name"); // ["required"]
+ *
+ * @template T - The type of the item value. Defaults to unknown.
+ * @param ctx - The FormContext from useForm, providing access to field and
+ *   error stores.
+ * @param name - The unique name/path for the array field (e.g., "items").
+ * @param itemSchema - The Yup schema used to validate each item; the schemas of
+ *   object schema keys are used for the item fields.
+ * @param options - Optional configuration including initial items, list schema,
+ *   debounce and validation trigger.
+ * @returns An object containing:
+ *
+ *   - `id`: The unique field identifier (for DOM element lookup).
+ *   - `items`: Items with stable keys, indexes and values.
+ *   - `value`: The current array value.
+ *   - `isTouched`: Whether the list has been changed.
+ *   - `errors`: Array of error messages for the array and its items.
+ *   - `isValid`: Whether the array currently passes validation.
+ *   - `isFailed`: Whether the array has validation errors.
+ *   - `errorsOf`: Function returning error messages of an item or item path.
+ *   - `append`, `prepend`, `insert`: Functions to add an item.
+ *   - `remove`: Function to remove an item by index.
+ *   - `move`, `swap`: Functions to reorder items.
+ *   - `update`: Function to replace a single item.
+ *   - `replace`: Function to replace all items.
+ *   - `reset`: Function to reset the array to its initial (or given) items; pass
+ *       `asInitial` to make the given items the new initial items.
+ */
+export function useFieldArray<T = unknown>(
+    ctx: FormContext,
+    name: string,
+    itemSchema: Schema<T>,
+    options: Partial<FieldArrayOptions<T>> = {}
+) {
+    // Options
+    const { name: form, errors: _errors, fields } = ctx;
+    const {
+        initial = [],
+        schema = array(),
+        debounce = 0,
+        trigger = "change",
+    } = options;
+
+    // Register list and item fields
+    const idRef = useRef(`${form}-${name}-${newId()}`);
+    if (!fields.getField(name)) {
+        const keys = initial.map(() => newId());
+        fields.register(name, {
+            id: idRef.current,
+            value: keys,
+            touched: false,
+            schema: schema.of(itemSchema) as Schema,
+            query: "relative",
+            initial: keys,
+            list: true,
+        });
+    }
+    readKeys(fields.getField(name)?.value).forEach((_, index) => {
+        for (const [path, value, schema] of itemFields(
+            name,
+            index,
+            initial[index],
+            itemSchema
+        )) {
+            fields.register(path, {
+                id: `${form}-${path}-${newId()}`,
+                value,
+                touched: false,
+                schema,
+                query: "absolute",
+                initial: value,
+            });
+        }
+    });
+
+    // Subscribe to field and error stores
+    const fieldSnap = useSyncExternalStore(
+        (fn) => fields.subscribe(name, fn),
+        () => fields.getSnapshot(name),
+        () => fields.getSnapshot(name)
+    );
+    const getValue = useMemo(
+        () => createValueReader<T>(ctx, name),
+        [ctx, name]
+    );
+    const value = useSyncExternalStore(fields.subscribeAll, getValue, getValue);
+    const allErrors = useSyncExternalStore(
+        _errors.subscribeAll,
+        _errors.getErrors,
+        _errors.getErrors
+    );
+
+    // Stats
+    const [, startTransition] = useTransition();
+    const abortRef = useRef<AbortController | null>(null);
+    useDebounceCallback(fieldSnap?.value, debounce || 300, () => {
+        if (trigger !== "change" || !fieldSnap?.touched) return;
+
+        // Abort previous validation
+        abortRef.current?.abort();
+        const ctl = new AbortController();
+        abortRef.current = ctl;
+
+        // Validation function, covering all item fields
+        startTransition(async () => {
+            const scoped = new Map(
+                Array.from(fields.getFields()).filter(([path]) =>
+                    isWithinPath(path, [name])
+                )
+            );
+
+            try {
+                await composeSchema(scoped).validate(composeParsed(scoped), {
+                    strict: false,
+                    abortEarly: false,
+                    stripUnknown: true,
+                });
+
+                if (ctl.signal.aborted) return;
+                _errors.clear(name, true);
+            } catch (e) {
+                if (ctl.signal.aborted) return;
+                if (e instanceof ValidationError) _errors.parseForm(e, [name]);
+            }
+        });
+    });
+
+    // unmount
+    useEffect(() => {
+        return () => {
+            abortRef.current?.abort();
+        };
+    }, []);
+
+    // Derived state
+    const id = fieldSnap?.id;
+    const keys = useMemo(() => readKeys(fieldSnap?.value), [fieldSnap?.value]);
+    const isTouched = !!fieldSnap?.touched;
+    const rootErrors = allErrors.get(rootPath(name));
+
+    // Computed value
+    const items = useMemo<Array<FieldArrayItem<T>>>(
+        () =>
+            keys.map((key, index) => ({
+                key,
+                index,
+                value: value[index] as T,
+            })),
+        [keys, value]
+    );
+    const errors = useMemo(
+        () =>
+            Object.values(rootErrors ?? {})
+                .map((i) => i.message)
+                .filter(Boolean),
+        [rootErrors]
+    );
+    const isValid = useMemo(
+        () => Object.keys(rootErrors ?? {}).length === 0,
+        [rootErrors]
+    );
+    const isFailed = useMemo(
+        () => Object.keys(rootErrors ?? {}).length > 0,
+        [rootErrors]
+    );
+
+    // Helpers
+    const current = useCallback(
+        () => readKeys(fields.getField(name)?.value),
+        [fields, name]
+    );
+
+    const registerItem = useCallback(
+        (index: number, item: T, clean: boolean) => {
+            for (const [path, value, schema] of itemFields(
+                name,
+                index,
+                item,
+                itemSchema
+            )) {
+                fields.register(path, {
+                    id: `${form}-${path}-${newId()}`,
+                    value,
+                    touched: false,
+                    schema,
+                    query: "absolute",
+                    initial: clean ? value : undefined,
+                });
+            }
+        },
+        [fields, form, name, itemSchema]
+    );
+
+    const reindex = useCallback(
+        (map: (index: number) => number | undefined) => {
+            fields.reindex(name, map);
+            _errors.reindex(name, map);
+        },
+        [fields, _errors, name]
+    );
+
+    // API
+    const errorsOf = useCallback(
+        (index: number, path?: string): string[] => {
+            const key = path ? `${name}.${index}.${path}` : `${name}.${index}`;
+            return Object.values(
+                allErrors.get(flatternPath(key)) ??
+                    allErrors.get(asteriskPath(key)) ??
+                    {}
+            )
+                .map((i) => i.message)
+                .filter(Boolean);
+        },
+        [allErrors, name]
+    );
+
+    const insert = useCallback(
+        (index: number, item: T) => {
+            const keys = [...current()];
+            const at = Math.min(Math.max(index, 0), keys.length);
+            keys.splice(at, 0, newId());
+
+            reindex((i) => (i >= at ? i + 1 : i));
+            registerItem(at, item, false);
+            fields.setValue(name, keys);
+        },
+        [fields, name, current, reindex, registerItem]
+    );
+
+    const append = useCallback(
+        (item: T) => insert(current().length, item),
+        [current, insert]
+    );
+
+    const prepend = useCallback((item: T) => insert(0, item), [insert]);
+
+    const remove = useCallback(
+        (index: number) => {
+            const keys = current();
+            if (index < 0 || index >= keys.length) return;
+
+            reindex((i) => (i === index ? undefined : i > index ? i - 1 : i));
+            fields.setValue(
+                name,
+                keys.filter((_, i) => i !== index)
+            );
+        },
+        [fields, name, current, reindex]
+    );
+
+    const move = useCallback(
+        (from: number, to: number) => {
+            const keys = [...current()];
+            if (from < 0 || from >= keys.length) return;
+
+            const at = Math.min(Math.max(to, 0), keys.length - 1);
+            if (at === from) return;
+
+            keys.splice(at, 0, ...keys.splice(from, 1));
+            reindex((i) => {
+                if (i === from) return at;
+                if (from < at && i > from && i <= at) return i - 1;
+                if (from > at && i >= at && i < from) return i + 1;
+                return i;
+            });
+            fields.setValue(name, keys);
+        },
+        [fields, name, current, reindex]
+    );
+
+    const swap = useCallback(
+        (a: number, b: number) => {
+            const keys = [...current()];
+            if (a === b || !(a in keys) || !(b in keys)) return;
+
+            [keys[a], keys[b]] = [keys[b]!, keys[a]!];
+            reindex((i) => (i === a ? b : i === b ? a : i));
+            fields.setValue(name, keys);
+        },
+        [fields, name, current, reindex]
+    );
+
+    const update = useCallback(
+        (index: number, item: T) => {
+            if (!(index in current())) return;
+
+            for (const [path, value] of itemFields(
+                name,
+                index,
+                item,
+                itemSchema
+            )) {
+                fields.setValue(path, value);
+            }
+        },
+        [fields, name, itemSchema, current]
+    );
+
+    const replace = useCallback(
+        (items: T[]) => {
+            reindex(() => undefined);
+            _errors.clear(name, true);
+            items.forEach((item, index) => registerItem(index, item, false));
+            fields.setValue(
+                name,
+                items.map(() => newId())
+            );
+        },
+        [fields, _errors, name, reindex, registerItem]
+    );
+
+    const reset = useCallback(
+        (value?: T[], asInitial = false) => {
+            // Initial items keep their keys, so the list is no longer dirty
+            const items = value ?? initial;
+            const initialKeys = readKeys(fields.getField(name)?.initial);
+            const keys = value
+                ? items.map(() => newId())
+                : items.map((_, i) => initialKeys[i] ?? newId());
+
+            reindex(() => undefined);
+            _errors.clear(name, true);
+            items.forEach((item, index) =>
+                registerItem(index, item, !value || asInitial)
+            );
+            fields.resetField(name, keys, asInitial);
+        },
+        [fields, _errors, name, initial, reindex, registerItem]
+    );
+
+    return useMemo(
+        () => ({
+            id,
+            items,
+            value,
+            isTouched,
+            errors,
+            isValid,
+            isFailed,
+            errorsOf,
+            append,
+            prepend,
+            insert,
+            remove,
+            move,
+            swap,
+            update,
+            replace,
+            reset,
+        }),
+        [
+            id,
+            items,
+            value,
+            isTouched,
+            errors,
+            isValid,
+            isFailed,
+            errorsOf,
+            append,
+            prepend,
+            insert,
+            remove,
+            move,
+            swap,
+            update,
+            replace,
+            reset,
+        ]
+    );
+}
+
+/** Reads the item keys held by a field array root. */
+function readKeys(value: unknown): string[] {
+    return Array.isArray(value) ? (value as string[]) : [];
+}
+
+/**
+ * Creates a snapshot reader assembling the items of a field array from its item
+ * fields. The same array is returned while item values are unchanged.
+ */
+function createValueReader<T>(ctx: FormContext, name: string) {
+    let cache: { values: unknown[]; value: T[] } = { values: [], value: [] };
+
+    return (): T[] => {
+        const count = readKeys(ctx.fields.getField(name)?.value).length;
+        const entries: Array<[string, unknown]> = [];
+        for (const [path, field] of ctx.fields.getFields()) {
+            if (path !== name && isWithinPath(path, [name])) {
+                entries.push([path, field.value]);
+            }
+        }
+
+        const values = entries.flat();
+        if (
+            cache.value.length === count &&
+            cache.values.length === values.length &&
+            values.every((v, i) => Object.is(v, cache.values[i]))
+        ) {
+            return cache.value;
+        }
+
+        const nested = readPath(nestPaths(entries), name);
+        const value = Array.from(
+            { length: count },
+            (_, i) => (Array.isArray(nested) ? nested[i] : undefined) as T
+        );
+        cache = { values, value };
+        return value;
+    };
+}
@@ -1,9 +1,44 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import { object, ValidationError } from "yup";
+import { ValidationError, type ArraySchema, type Schema } from "yup";
+import { isArray, newId } from "../../utils";
 import { createErrorStore } from "../stores/errors";
 import { createFieldStore } from "../stores/fields";
-import type { FormContext, LocalizedMessages } from "../types";
-import { resetLocale } from "../utils";
+import { createFormStore } from "../stores/form";
+import type { FieldErrors, FormContext, LocalizedMessages } from "../types";
+import {
+    composeParsed,
+    composeSchema,
+    extractResponseErrors,
+    formDataKey,
+    isDraftable,
+    isWithinPath,
+    itemFields,
+    nestPaths,
+    readDraft,
+    readPath,
+    resetLocale,
+    resolveAsyncResult,
+    resolveDraftStorage,
+    writeDraft,
+} from "../utils";
+
+/** Configuration options for form draft persistence. */
+export interface FormPersistOptions {
+    /** Draft storage: "local" (default), "session" or a Storage object. */
+    storage: "local" | "session" | Storage;
+
+    /** Debounce time in milliseconds before saving changes. Defaults to 500. */
+    debounce: number;
+
+    /**
+     * Draft version; stored drafts with another version are discarded. Bump it
+     * whenever the form fields change incompatibly. Defaults to 1.
+     */
+    version: string | number;
+
+    /** Names of fields never stored, in addition to sensitive fields. */
+    exclude: string[];
+}
 
 /** Configuration options for the useForm hook. */
 export interface FormOptions {
@@ -15,6 +50,12 @@ export interface FormOptions {
      * after form submission.
      */
     scrollToError: boolean;
+
+    /**
+     * Saves a draft of field values to storage under the form name and restores
+     * it after mount. `true` uses the default persistence options.
+     */
+    persist: boolean | Partial<FormPersistOptions>;
 }
 
 /**
@@ -24,16 +65,42 @@ export interface FormOptions {
  * validation, and provides utilities for parsing form data and server
  * responses.
  *
+ * Dot-path field names (e.g., "address.city") describe nested objects: they
+ * compose a nested schema, serialize to nested objects and to bracketed
+ * FormData keys (e.g., "address[city]").
+ *
+ * Aggregate state (dirty, touched, validity and lifecycle flags) is kept in
+ * `ctx.state` and read with useFormState, so only subscribed components
+ * re-render.
+ *
+ * With `persist`, values of a dirty form are saved as a draft (debounced) and
+ * restored after mount (and whenever the form name or draft version changes) in
+ * place of field values, leaving the form dirty. Values containing files and
+ * fields marked `sensitive` are never stored; the draft is removed once the
+ * form is no longer dirty or `clearDraft()` is called (e.g., after a successful
+ * submit).
+ *
  * @param name - A unique name or identifier for the form.
  * @param messages - Localized error messages for validation rules.
- * @param options - Optional configuration including locale and scrollToError
- *   behavior.
+ * @param options - Optional configuration including locale, scrollToError
+ *   behavior and draft persistence.
  * @returns An object containing:
  *
  *   - `ctx`: The FormContext for use with field components.
- *   - `reset`: Function to reset all fields to initial values.
+ *   - `reset`: Function to reset fields to the given (flat or nested) values or
+ *       their initial values; field arrays take their items. Pass `asInitial`
+ *       to make the given values the new initial values.
  *   - `parseResponse`: Function to parse server error responses.
- *   - `validate`: Async function to validate the entire form.
+ *   - `validate`: Async function to validate the entire form, or only the given
+ *       field names (and their nested fields); validating the entire form
+ *       counts as a submission attempt in the form state.
+ *   - `handleSubmit`: Creates a form `onSubmit` handler that prevents the default
+ *       action, validates, calls `onValid` with the serialized data (or
+ *       FormData) and `onInvalid` with the errors. Tracks `isSubmitting`,
+ *       ignores submissions while one is in progress, and maps `422` errors
+ *       thrown by `onValid` into the error store; other errors are kept as
+ *       `submitError` in the form state.
+ *   - `clearDraft`: Function to remove the saved draft.
  */
 export function useForm(
     name: string,
@@ -43,51 +110,63 @@ export function useForm(
     resetLocale();
 
     // Options
-    const { locale, scrollToError = true } = options;
+    const { locale, scrollToError = true, persist = false } = options;
+    const {
+        storage: draftStorage = "local",
+        debounce: draftDebounce = 500,
+        version: draftVersion = 1,
+        exclude: draftExclude = [],
+    } = persist === true ? {} : persist || {};
+    const draftKey = `form::${name}::draft`;
+    const draftRef = useRef(
+        persist ? resolveDraftStorage(draftStorage) : undefined
+    );
+    const draftTimerRef = useRef<ReturnType<typeof setTimeout>>(undefined);
 
     // Stats
     const abortRef = useRef<AbortController | null>(null);
+    const submittingRef = useRef(false);
     const [scrollPending, setScrollPending] = useState(false);
 
     // Create field and error stores
     const fields = useMemo(() => createFieldStore(), []);
     const errors = useMemo(() => createErrorStore(), []);
+    const state = useMemo(
+        () => createFormStore(fields, errors),
+        [fields, errors]
+    );
 
     // Helpers
     const getSchema = useCallback(
-        () =>
-            object(
-                Object.fromEntries(
-                    Array.from(fields.getFields().entries()).map(
-                        ([name, field]) => [name, field.schema]
-                    )
-                )
+        (names?: string[]) =>
+            composeSchema(
+                names
+                    ? new Map(
+                          Array.from(fields.getFields()).filter(([name]) =>
+                              isWithinPath(name, names)
+                          )
+                      )
+                    : fields.getFields()
             ),
         [fields]
     );
 
     const getParsed = useCallback(
-        () =>
-            Object.fromEntries(
-                Array.from(fields.getFields().entries()).map(
-                    ([name, field]) => [
-                        name,
-                        field.parse ? field.parse(field.value) : field.value,
-                    ]
-                )
-            ),
+        () => composeParsed(fields.getFields()),
         [fields]
     );
 
     const getSerialized = useCallback(
         () =>
-            Object.fromEntries(
+            nestPaths(
                 Array.from(fields.getFields().entries()).map(
                     ([name, field]) => [
                         name,
-                        field.serialize
-                            ? field.serialize(field.value)
-                            : field.value,
+                        field.list
+                            ? []
+                            : field.serialize
+                              ? field.serialize(field.value)
+                              : field.value,
                     ]
                 )
             ),
@@ -96,7 +175,11 @@ export function useForm(
 
     const getFormData = useCallback((): FormData => {
         const data = new FormData();
-        for (const [name, field] of fields.getFields()) {
+        for (const [path, field] of fields.getFields()) {
+            // Field arrays are sent through their item fields
+            if (field.list) continue;
+
+            const name = formDataKey(path);
             if (field.serializeFormData) {
                 data.append(name, field.serializeFormData(field.value));
                 continue;
@@ -126,6 +209,48 @@ export function useForm(
         return data;
     }, [fields]);
 
+    // Restore draft after mount, so server and client renders match
+    useEffect(() => {
+        const storage = draftRef.current;
+        if (!storage) return;
+
+        fields.restore(readDraft(storage, draftKey, draftVersion));
+    }, [fields, draftKey, draftVersion]);
+
+    // Save draft on change
+    const draftExcludeKey = draftExclude.join("\n");
+    useEffect(() => {
+        const storage = draftRef.current;
+        if (!storage) return;
+
+        const save = () => {
+            const values: Record<string, unknown> = {};
+            if (state.getSnapshot().isDirty) {
+                for (const [name, field] of fields.getFields()) {
+                    if (
+                        field.sensitive ||
+                        field.compute ||
+                        draftExcludeKey.split("\n").includes(name) ||
+                        !isDraftable(field.value)
+                    ) {
+                        continue;
+                    }
+                    values[name] = field.value;
+                }
+            }
+            writeDraft(storage, draftKey, draftVersion, values);
+        };
+
+        const unsubscribe = fields.subscribeAll(() => {
+            clearTimeout(draftTimerRef.current);
+            draftTimerRef.current = setTimeout(save, draftDebounce);
+        });
+        return () => {
+            clearTimeout(draftTimerRef.current);
+            unsubscribe();
+        };
+    }, [fields, state, draftKey, draftVersion, draftDebounce, draftExcludeKey]);
+
     // Update localization messages
     useEffect(() => {
         errors.setLocalization(messages, locale);
@@ -165,14 +290,62 @@ export function useForm(
             name,
             fields,
             errors,
+            state,
         }),
-        [name, fields, errors]
+        [name, fields, errors, state]
     );
 
     // API
     const reset = useCallback(
-        (values: Record<string, unknown>) => {
-            fields.reset(values);
+        (values: Record<string, unknown>, asInitial = false) => {
+            // Field arrays are resized to the given items first, so their
+            // item fields resolve below
+            for (const [name, field] of Array.from(fields.getFields())) {
+                const items =
+                    name in values ? values[name] : readPath(values, name);
+                if (!field.list || !isArray(items)) continue;
+
+                const keys: Array<string | undefined> = isArray(field.value)
+                    ? (field.value as string[])
+                    : [];
+                const itemSchema = (
+                    field.schema as ArraySchema<unknown[], object>
+                ).innerType as Schema;
+                fields.reindex(name, (i) => (i < items.length ? i : undefined));
+                items.forEach((item, index) => {
+                    for (const [path, value, schema] of itemFields(
+                        name,
+                        index,
+                        item,
+                        itemSchema
+                    )) {
+                        fields.register(path, {
+                            id: `${field.id}-${path}-${newId()}`,
+                            value,
+                            touched: false,
+                            schema,
+                            query: "absolute",
+                            initial: asInitial ? value : undefined,
+                        });
+                    }
+                });
+                fields.reset(
+                    { [name]: items.map((_, i) => keys[i] ?? newId()) },
+                    asInitial
+                );
+            }
+
+            // Resolve dot-path field names against nested values
+            const flat: Record<string, unknown> = {};
+            for (const [name, field] of fields.getFields()) {
+                if (field.list) continue;
+
+                const value =
+                    name in values ? values[name] : readPath(values, name);
+                if (value !== undefined) flat[name] = value;
+            }
+
+            fields.reset(flat, asInitial);
             errors.reset();
         },
         [fields, errors]
@@ -186,15 +359,23 @@ export function useForm(
     );
 
     const validate = useCallback(
-        async (formData: boolean = false) => {
+        async (formData: boolean = false, names?: string[]) => {
             // Abort previous validation
             abortRef.current?.abort();
             const ctl = new AbortController();
             abortRef.current = ctl;
+            state.setStatus(
+                names
+                    ? { isValidating: true }
+                    : {
+                          isValidating: true,
+                          submitCount: state.getSnapshot().submitCount + 1,
+                      }
+            );
 
-            // Validation
+            // Validation, resolving `ref` and `when` against all values
             try {
-                await getSchema().validate(getParsed(), {
+                await getSchema(names).validate(getParsed(), {
                     strict: false,
                     abortEarly: false,
                     stripUnknown: true,
@@ -204,7 +385,39 @@ export function useForm(
                     return { canceled: true };
                 }
 
-                errors.reset();
+                // Server-side checks once the schema passes
+                const failures = await Promise.all(
+                    Array.from(fields.getFields())
+                        .filter(
+                            ([name, field]) =>
+                                field.asyncValidate &&
+                                (!names || isWithinPath(name, names))
+                        )
+                        .map(async ([name, field]) => ({
+                            name,
+                            failure: resolveAsyncResult(
+                                await field.asyncValidate!(field.value, {
+                                    signal: ctl.signal,
+                                })
+                            ),
+                        }))
+                );
+                ctl.signal.throwIfAborted();
+
+                errors.parseForm(null, names);
+                const failed = failures.filter((f) => f.failure);
+                if (failed.length > 0) {
+                    for (const { name, failure } of failed) {
+                        errors.invalidate(
+                            name,
+                            failure!.rule,
+                            failure!.message
+                        );
+                    }
+                    setScrollPending(scrollToError);
+                    return { invalid: true };
+                }
+
                 return {
                     data: formData ? getFormData() : getSerialized(),
                 };
@@ -214,15 +427,21 @@ export function useForm(
                 }
 
                 if (e instanceof ValidationError) {
-                    errors.parseForm(e);
+                    errors.parseForm(e, names);
                     setScrollPending(scrollToError);
                     return { invalid: true };
                 } else {
                     return { error: e };
                 }
+            } finally {
+                if (abortRef.current === ctl) {
+                    state.setStatus({ isValidating: false });
+                }
             }
         },
         [
+            state,
+            fields,
             errors,
             getSchema,
             getParsed,
@@ -232,13 +451,70 @@ export function useForm(
         ]
     );
 
+    const handleSubmit = useCallback(
+        <T = Record<string, unknown>>(
+            onValid: (data: T) => unknown,
+            onInvalid?: (errors: Map<string, FieldErrors>) => void,
+            formData: boolean = false
+        ) =>
+            async (e?: { preventDefault: () => void }) => {
+                e?.preventDefault();
+
+                // Prevent double submission
+                if (submittingRef.current) return;
+                submittingRef.current = true;
+                state.setStatus({ isSubmitting: true, submitError: undefined });
+
+                try {
+                    const result = await validate(formData);
+                    if (result.canceled) return;
+                    if (result.invalid) {
+                        onInvalid?.(errors.getErrors());
+                        return;
+                    }
+                    if ("error" in result) {
+                        state.setStatus({ submitError: result.error });
+                        return;
+                    }
+
+                    await onValid(result.data as T);
+                } catch (err) {
+                    // Map server validation errors into the error store
+                    const payload = await extractResponseErrors(err);
+                    if (!payload) {
+                        state.setStatus({ submitError: err });
+                        return;
+                    }
+
+                    errors.parseResponse(payload);
+                    setScrollPending(scrollToError);
+                    onInvalid?.(errors.getErrors());
+                } finally {
+                    submittingRef.current = false;
+                    state.setStatus({ isSubmitting: false });
+                }
+            },
+        [state, errors, validate, scrollToError]
+    );
+
+    const clearDraft = useCallback(() => {
+        clearTimeout(draftTimerRef.current);
+        try {
+            draftRef.current?.removeItem(draftKey);
+        } catch {
+            // Storage unavailable
+        }
+    }, [draftKey]);
+
     return useMemo(
         () => ({
             ctx,
             reset,
             parseResponse,
             validate,
+            handleSubmit,
+            clearDraft,
         }),
-        [ctx, reset, parseResponse, validate]
+        [ctx, reset, parseResponse, validate, handleSubmit, clearDraft]
     );
 }
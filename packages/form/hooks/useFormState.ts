@@ -0,0 +1,35 @@
+import { useSyncExternalStore } from "react";
+import type { FormContext } from "../types";
+
+/**
+ * A React hook for reading the aggregate state of a form.
+ *
+ * Subscribes to the form-level store, so only components using this hook
+ * re-render when dirty, touched, validity or lifecycle state changes.
+ *
+ * @example
+ *     const { isDirty, isSubmitting } = useFormState(ctx);
+ *     const canSubmit = isDirty && !isSubmitting;
+ *
+ * @param ctx - The FormContext from useForm.
+ * @returns The current FormState:
+ *
+ *   - `isDirty`, `dirtyFields`: Fields whose value differs from their initial value
+ *       (deep comparison).
+ *   - `isTouched`, `touchedFields`: Fields changed by the user.
+ *   - `isValid`: Whether no validation errors are reported and all field values
+ *       pass their schemas.
+ *   - `isValidating`: Whether a form validation is in progress.
+ *   - `isSubmitting`: Whether a form submission is in progress.
+ *   - `submitCount`: Number of form validations requested for submission.
+ *   - `submitError`: The error of the last failed submission, if any.
+ */
+export function useFormState(ctx: FormContext) {
+    const { state } = ctx;
+
+    return useSyncExternalStore(
+        state.subscribe,
+        state.getSnapshot,
+        state.getSnapshot
+    );
+}
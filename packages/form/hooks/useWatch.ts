@@ -0,0 +1,59 @@
+import { useCallback, useRef, useSyncExternalStore } from "react";
+import type { FormContext, FUNC } from "../types";
+
+/**
+ * A React hook for reading live field values outside of field components.
+ *
+ * Subscribes only to the watched fields, so the component re-renders only when
+ * one of their values changes.
+ *
+ * @example
+ *     const country = useWatch<string>(ctx, "country");
+ *     const [qty, price] = useWatch<[number, number]>(ctx, ["qty", "price"]);
+ *
+ * @template T - The watched value type, or a tuple of value types.
+ * @param ctx - The FormContext from useForm.
+ * @param names - A field name, or a list of field names.
+ * @returns The field value (undefined until registered), or the list of values
+ *   in the order of `names`.
+ */
+export function useWatch<T = unknown>(ctx: FormContext, names: string): T;
+export function useWatch<T extends unknown[] = unknown[]>(
+    ctx: FormContext,
+    names: string[]
+): T;
+export function useWatch(ctx: FormContext, names: string | string[]) {
+    const { fields } = ctx;
+    const isList = Array.isArray(names);
+    const key = isList ? names.join("\n") : names;
+    const cacheRef = useRef<unknown[]>([]);
+
+    const subscribe = useCallback(
+        (fn: FUNC) => {
+            const unsubscribes = key
+                .split("\n")
+                .map((name) => fields.subscribe(name, fn));
+            return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+        },
+        [fields, key]
+    );
+
+    const getSnapshot = useCallback(() => {
+        if (!isList) return fields.getSnapshot(key)?.value;
+
+        // Keep the list identity while values are unchanged
+        const values = key
+            .split("\n")
+            .map((name) => fields.getSnapshot(name)?.value);
+        const cache = cacheRef.current;
+        if (
+            cache.length !== values.length ||
+            values.some((v, i) => !Object.is(v, cache[i]))
+        ) {
+            cacheRef.current = values;
+        }
+        return cacheRef.current;
+    }, [fields, key, isList]);
+
+    return useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+}
@@ -0,0 +1,164 @@
+import { useCallback, useMemo, useState } from "react";
+import type { FieldErrors } from "../types";
+import { isWithinPath } from "../utils";
+import type { useForm } from "./useForm";
+
+/** A single step of a wizard. */
+export interface WizardStep {
+    /** The step name, e.g. for progress indicators. */
+    name: string;
+
+    /**
+     * Field names validated by this step. Nested fields are included, e.g.
+     * "address" covers "address.city".
+     */
+    fields: string[];
+}
+
+/**
+ * A React hook for building multi-step forms on top of useForm.
+ *
+ * Fields of all steps belong to one form, so values are kept while moving
+ * between steps and the final submission carries the combined payload. Moving
+ * forward validates only the fields of the steps being left; the final
+ * submission validates the entire form and returns to the first step with
+ * errors.
+ *
+ * Fields register when their step renders, so steps that were never reached
+ * cannot be validated: moving forward is limited to the step after the furthest
+ * reached one, and submitting before the last step has been reached moves to
+ * the first unreached step instead.
+ *
+ * @example
+ *     const form = useForm("signup", messages);
+ *     const wizard = useWizard(form, [
+ *         { name: "account", fields: ["email", "password"] },
+ *         { name: "profile", fields: ["name", "address"] },
+ *     ]);
+ *
+ *     const onSubmit = wizard.isLast
+ *         ? wizard.handleSubmit((data) => api.post("/signup", data))
+ *         : () => void wizard.next();
+ *
+ * @param form - The object returned by useForm.
+ * @param steps - The wizard steps in order.
+ * @returns An object containing:
+ *
+ *   - `step`: The current step index.
+ *   - `current`: The current step.
+ *   - `steps`: The wizard steps.
+ *   - `count`: The number of steps.
+ *   - `isFirst`, `isLast`: Whether the current step is the first or last one.
+ *   - `progress`: The completed ratio, from 0 to 1.
+ *   - `next`: Async function validating the current step and moving forward;
+ *       resolves with whether it moved.
+ *   - `back`: Function moving to the previous step without validation.
+ *   - `reached`: The furthest step index reached.
+ *   - `goTo`: Async function moving to a step; moving forward validates the steps
+ *       in between and never skips past the step after `reached`.
+ *   - `handleSubmit`: Like useForm's handleSubmit, additionally moving to the first
+ *       step with errors when the form is invalid. Before the last step has
+ *       been reached, it moves forward like `goTo` instead of submitting.
+ */
+export function useWizard(
+    form: ReturnType<typeof useForm>,
+    steps: WizardStep[]
+) {
+    // Stats
+    const { validate, handleSubmit: submitForm } = form;
+    const [index, setIndex] = useState(0);
+    const [furthest, setFurthest] = useState(0);
+    const count = steps.length;
+    const step = Math.min(index, Math.max(count - 1, 0));
+    const reached = Math.min(Math.max(furthest, step), Math.max(count - 1, 0));
+
+    // Helpers
+    const validateSteps = useCallback(
+        async (from: number, to: number) => {
+            const names = steps.slice(from, to).flatMap((s) => s.fields);
+            if (names.length === 0) return true;
+
+            const result = await validate(false, names);
+            return "data" in result;
+        },
+        [steps, validate]
+    );
+
+    const firstInvalid = useCallback(
+        (errors: Map<string, FieldErrors>) => {
+            const paths = Array.from(errors.keys());
+            return steps.findIndex((s) =>
+                paths.some((path) => isWithinPath(path, s.fields))
+            );
+        },
+        [steps]
+    );
+
+    // API
+    const goTo = useCallback(
+        async (target: number) => {
+            const to = Math.min(Math.max(target, 0), count - 1);
+            if (to > reached + 1) return false;
+            if (to > step && !(await validateSteps(step, to))) return false;
+
+            setIndex(to);
+            setFurthest((prev) => Math.max(prev, to));
+            return true;
+        },
+        [count, step, reached, validateSteps]
+    );
+
+    const next = useCallback(() => goTo(step + 1), [goTo, step]);
+
+    const back = useCallback(() => {
+        setIndex(Math.max(step - 1, 0));
+    }, [step]);
+
+    const handleSubmit = useCallback(
+        <T = Record<string, unknown>>(
+            onValid: (data: T) => unknown,
+            onInvalid?: (errors: Map<string, FieldErrors>) => void,
+            formData: boolean = false
+        ) => {
+            const submit = submitForm<T>(
+                onValid,
+                (errors) => {
+                    const failed = firstInvalid(errors);
+                    if (failed >= 0) setIndex(failed);
+                    onInvalid?.(errors);
+                },
+                formData
+            );
+
+            return async (e?: { preventDefault: () => void }) => {
+                // Fields of unreached steps are not registered yet
+                if (reached < count - 1) {
+                    e?.preventDefault();
+                    await goTo(reached + 1);
+                    return;
+                }
+
+                await submit(e);
+            };
+        },
+        [submitForm, firstInvalid, goTo, reached, count]
+    );
+
+    return useMemo(
+        () => ({
+            step,
+            reached,
+            current: steps[step],
+            steps,
+            count,
+            isFirst: step === 0,
+            isLast: step >= count - 1,
+            progress: count > 0 ? (step + 1) / count : 0,
+            next,
+            back,
+            goTo,
+            handleSubmit,
+        }),
+        [step, reached, steps, count, next, back, goTo, handleSubmit]
+    );
+}
@@ -1,4 +1,9 @@
+export * from "./hooks/useComputed";
 export * from "./hooks/useField";
+export * from "./hooks/useFieldArray";
 export * from "./hooks/useForm";
+export * from "./hooks/useFormState";
+export * from "./hooks/useWatch";
+export * from "./hooks/useWizard";
 export * from "./install";
 export * from "./types";
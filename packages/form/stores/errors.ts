@@ -21,6 +21,11 @@ import {
  * and provides methods for parsing errors from various sources (Yup validation,
  * server responses, and manual invalidation).
  *
+ * Errors are kept by their exact path; the root (e.g., "users") and wildcard
+ * (e.g., "users.*.email") entries used by relative and absolute queries are
+ * rebuilt from them on every change, so clearing a nested path never leaves
+ * stale aggregated errors behind.
+ *
  * @returns An ErrorStore object with methods for error management, querying,
  *   and subscription.
  */
@@ -28,16 +33,12 @@ export function createErrorStore(): ErrorStore {
     // Store state
     let currentLocale: string | undefined = undefined;
     let currentMessages: LocalizedMessages = {};
-    const state = new Map<string, FieldErrors>();
+    const exact = new Map<string, Record<string, string | undefined>>();
+    let state = new Map<string, FieldErrors>();
     const subscribers = new Map<string, Set<FUNC>>();
+    const globals = new Set<FUNC>();
 
     // Helpers
-    const _notify = (path: string) =>
-        subscribers.get(path)?.forEach((fn) => fn());
-
-    const _notifyAll = () =>
-        subscribers.forEach((set) => set.forEach((fn) => fn()));
-
     const _translate = (path: string, rule: string, explicit?: string) => {
         if (explicit?.trim()) return explicit.trim();
 
@@ -54,38 +55,74 @@ export function createErrorStore(): ErrorStore {
     };
 
     const _push = (path: string, rule: string, message?: string) => {
-        path = path.trim();
+        path = flatternPath(path);
         rule = rule.trim();
         if (!path || !rule) return;
 
-        const add = (k: string) => {
-            const prev = state.get(k) ?? {};
-            const next = {
-                ...prev,
-                [rule]: {
-                    fixed: !!message?.trim(),
-                    message: _translate(k, rule, message),
-                },
-            };
-            state.set(k, next);
-        };
+        const text = message?.trim();
+        exact.set(path, {
+            ...exact.get(path),
+            [rule]: text === "" ? undefined : text,
+        });
+    };
 
-        const root = rootPath(path);
+    const _clearField = (path: string, deep = false) => {
         const flat = flatternPath(path);
-        const asterisk = asteriskPath(path);
+        exact.delete(flat);
+        exact.delete(asteriskPath(path));
+        if (!deep) return;
 
-        add(root);
-        if (root !== flat) add(flat);
-        if (flat !== asterisk) add(asterisk);
+        for (const key of Array.from(exact.keys())) {
+            if (key.startsWith(`${flat}.`)) exact.delete(key);
+        }
     };
 
-    const _clear = () => {
-        state.clear();
-    };
+    // Rebuilds aggregated entries and notifies subscribers of changed paths
+    const _commit = () => {
+        const next = new Map<string, FieldErrors>();
+        const add = (key: string, rule: string, message?: string) => {
+            next.set(key, {
+                ...next.get(key),
+                [rule]: {
+                    fixed: !!message,
+                    message: _translate(key, rule, message),
+                },
+            });
+        };
+
+        for (const [path, rules] of exact) {
+            const root = rootPath(path);
+            const asterisk = asteriskPath(path);
+            for (const [rule, message] of Object.entries(rules)) {
+                add(root, rule, message);
+                if (root !== path) add(path, rule, message);
+                if (path !== asterisk) add(asterisk, rule, message);
+            }
+        }
 
-    const _clearField = (path: string) => {
-        state.delete(flatternPath(path));
-        state.delete(asteriskPath(path));
+        // Keep unchanged entries, so snapshots change only with their errors
+        const changed = new Set<string>();
+        for (const [key, errors] of next) {
+            const prev = state.get(key);
+            if (prev && isSameErrors(prev, errors)) next.set(key, prev);
+            else changed.add(key);
+        }
+        for (const key of state.keys()) {
+            if (!next.has(key)) changed.add(key);
+        }
+        if (changed.size === 0) return;
+
+        state = next;
+        for (const [path, set] of subscribers) {
+            if (
+                changed.has(path) ||
+                changed.has(rootPath(path)) ||
+                changed.has(asteriskPath(path))
+            ) {
+                set.forEach((fn) => fn());
+            }
+        }
+        globals.forEach((fn) => fn());
     };
 
     // Refresh
@@ -95,16 +132,7 @@ export function createErrorStore(): ErrorStore {
     ) => {
         currentLocale = locale;
         currentMessages = messages;
-        for (const [path, errors] of state.entries()) {
-            const next: FieldErrors = {};
-            for (const [rule, data] of Object.entries(errors)) {
-                next[rule] = data.fixed
-                    ? data
-                    : { fixed: false, message: _translate(path, rule) };
-            }
-            state.set(path, next);
-        }
-        _notifyAll();
+        _commit();
     };
 
     // Store API
@@ -116,6 +144,7 @@ export function createErrorStore(): ErrorStore {
             : state.get(rootPath(path));
 
     const subscribe = (path: string, fn: FUNC) => {
+        path = flatternPath(path);
         if (!subscribers.has(path)) {
             subscribers.set(path, new Set());
         }
@@ -124,19 +153,28 @@ export function createErrorStore(): ErrorStore {
         return () => subscribers.get(path)?.delete(fn);
     };
 
+    const subscribeAll = (fn: FUNC) => {
+        globals.add(fn);
+        return () => globals.delete(fn);
+    };
+
     // Errors API
     const reset = () => {
-        _clear();
-        _notifyAll();
+        exact.clear();
+        _commit();
     };
 
-    const clear = (path: string) => {
-        _clearField(path);
-        _notify(path);
+    const clear = (path: string, deep = false) => {
+        _clearField(path, deep);
+        _commit();
     };
 
-    const parseForm = (e: unknown) => {
-        _clear();
+    const parseForm = (e: unknown, paths?: string[]) => {
+        if (paths) {
+            for (const path of paths) _clearField(path, true);
+        } else {
+            exact.clear();
+        }
 
         const errors = parseYupErrors(e);
         if (typeof errors === "object") {
@@ -150,11 +188,11 @@ export function createErrorStore(): ErrorStore {
             }
         }
 
-        _notifyAll();
+        _commit();
     };
 
     const parseResponse = (e: unknown) => {
-        _clear();
+        exact.clear();
         if (isObject<Record<string, unknown>>(e)) {
             for (const [path, payload] of Object.entries(e)) {
                 if (!path.trim()) continue;
@@ -173,40 +211,88 @@ export function createErrorStore(): ErrorStore {
             }
         }
 
-        _notifyAll();
+        _commit();
     };
 
-    const parseField = (path: string, e: unknown) => {
-        _clearField(path);
+    const parseField = (path: string, e: unknown, deep = false) => {
+        _clearField(path, deep);
         const errors = parseYupErrors(e);
 
-        for (const rules of Object.values(errors)) {
+        for (const [sub, rules] of Object.entries(errors)) {
             if (!isArray<string>(rules)) continue;
 
+            const target = deep ? joinPath(path, sub) : path;
             const filtered = rules
                 .map((r) => (typeof r === "string" ? r.trim() : ""))
                 .filter(Boolean);
-            for (const r of filtered) _push(path, r);
+            for (const r of filtered) _push(target, r);
         }
 
-        _notify(path);
+        _commit();
+    };
+
+    const reindex = (
+        path: string,
+        map: (index: number) => number | undefined
+    ) => {
+        const flat = flatternPath(path);
+        const moved = new Map<string, Record<string, string | undefined>>();
+
+        for (const [key, rules] of Array.from(exact.entries())) {
+            if (!key.startsWith(`${flat}.`)) continue;
+
+            // Wildcard errors apply to all items and stay in place
+            const [index = "", ...rest] = key.slice(flat.length + 1).split(".");
+            if (!/^\d+$/.test(index)) continue;
+            exact.delete(key);
+
+            const next = map(Number(index));
+            if (next !== undefined) {
+                moved.set([flat, next, ...rest].join("."), rules);
+            }
+        }
+
+        for (const [key, rules] of moved) exact.set(key, rules);
+        _commit();
     };
 
     const invalidate = (path: string, rule: string, message?: string) => {
         _push(path, rule, message);
-        _notify(path);
+        _commit();
     };
 
     return {
         getErrors,
         getSnapshot,
         subscribe,
+        subscribeAll,
         setLocalization,
         reset,
         clear,
         parseForm,
         parseResponse,
         parseField,
+        reindex,
         invalidate,
     };
 }
+
+/** Checks whether two field error sets have the same rules and messages. */
+function isSameErrors(a: FieldErrors, b: FieldErrors): boolean {
+    const keys = Object.keys(a);
+    return (
+        keys.length === Object.keys(b).length &&
+        keys.every(
+            (rule) =>
+                rule in b &&
+                a[rule]!.fixed === b[rule]!.fixed &&
+                a[rule]!.message === b[rule]!.message
+        )
+    );
+}
+
+/** Joins a field path with a nested Yup error path (e.g. `[0].name`). */
+function joinPath(path: string, sub: string): string {
+    if (!sub) return path;
+    return sub.startsWith("[") ? `${path}${sub}` : `${path}.${sub}`;
+}
@@ -11,15 +11,67 @@ import type { FieldContext, FieldStore, FUNC } from "../types";
  *   management, and subscription.
  */
 export function createFieldStore(): FieldStore {
+    let restored: Record<string, unknown> = {};
     const state = new Map<string, FieldContext>();
     const subscribers = new Map<string, Set<FUNC>>();
+    const globals = new Set<FUNC>();
 
     // Helpers
-    const _notify = (field: string) =>
+    const _notify = (field: string) => {
         subscribers.get(field)?.forEach((fn) => fn());
+        globals.forEach((fn) => fn());
+    };
 
-    const _notifyAll = () =>
+    const _notifyAll = () => {
         subscribers.forEach((set) => set.forEach((fn) => fn()));
+        globals.forEach((fn) => fn());
+    };
+
+    // Registration happens during render, so global subscribers (e.g., the
+    // form state) are notified once the current render batch completes
+    let registered = false;
+    const _notifyRegistered = () => {
+        if (registered) return;
+        registered = true;
+        queueMicrotask(() => {
+            registered = false;
+            globals.forEach((fn) => fn());
+        });
+    };
+
+    const _compute = (context: FieldContext) =>
+        context.compute!(
+            (context.computedFrom ?? []).map((n) => state.get(n)?.value)
+        );
+
+    // Updates computed fields derived from a changed field (transitively)
+    const _recompute = (
+        changed: string,
+        notify = true,
+        seen = new Set<string>()
+    ) => {
+        for (const [name, field] of state) {
+            if (!field.compute || !field.computedFrom?.includes(changed)) {
+                continue;
+            }
+            if (seen.has(name)) continue;
+            seen.add(name);
+
+            const value = _compute(field);
+            if (Object.is(value, field.value)) continue;
+
+            state.set(name, { ...field, value });
+            if (notify) _notify(name);
+            _recompute(name, notify, seen);
+        }
+    };
+
+    const _recomputeAll = () => {
+        for (const [name, field] of state) {
+            if (field.compute)
+                state.set(name, { ...field, value: _compute(field) });
+        }
+    };
 
     // Store API
     const getFields = () => state;
@@ -35,43 +87,106 @@ export function createFieldStore(): FieldStore {
         return () => subscribers.get(name)?.delete(fn);
     };
 
+    const subscribeAll = (fn: FUNC) => {
+        globals.add(fn);
+        return () => globals.delete(fn);
+    };
+
     // Fields API
-    const reset = (values: Record<string, unknown>) => {
+    const reset = (values: Record<string, unknown>, asInitial = false) => {
+        restored = {};
         for (const [field, value] of Object.entries(values)) {
             const context = state.get(field);
-            if (context) {
+            if (context && !context.compute) {
                 state.set(field, {
                     ...context,
                     touched: false,
                     value: value ?? context.initial,
+                    initial: asInitial
+                        ? (value ?? context.initial)
+                        : context.initial,
                 });
             }
         }
 
+        _recomputeAll();
         _notifyAll();
     };
 
-    const resetField = (name: string, value: unknown) => {
+    const resetField = (name: string, value: unknown, asInitial = false) => {
         const context = state.get(name);
-        if (context) {
+        if (context && !context.compute) {
             state.set(name, {
                 ...context,
                 touched: false,
                 value: value ?? context.initial,
+                initial: asInitial
+                    ? (value ?? context.initial)
+                    : context.initial,
             });
 
             _notify(name);
+            _recompute(name);
         }
     };
 
     const register = <T = unknown>(name: string, context: FieldContext<T>) => {
         if (state.has(name)) return;
-        state.set(name, context as FieldContext<unknown>);
+
+        const field = context as FieldContext<unknown>;
+        if (field.compute) {
+            const value = _compute(field);
+            state.set(name, { ...field, value, initial: value });
+            _notifyRegistered();
+            return;
+        }
+
+        state.set(
+            name,
+            name in restored && !field.sensitive
+                ? { ...field, value: restored[name] }
+                : field
+        );
+
+        // Registration happens during render; subscribers read the updated
+        // computed values once they subscribe
+        _recompute(name, false);
+        _notifyRegistered();
+    };
+
+    const restore = (values: Record<string, unknown>) => {
+        restored = values;
+        for (const [name, value] of Object.entries(values)) {
+            const field = state.get(name);
+            if (field && !field.compute && !field.sensitive) {
+                state.set(name, { ...field, value });
+            }
+        }
+
+        _recomputeAll();
+        _notifyAll();
+    };
+
+    const setComputed = (
+        name: string,
+        from: string[],
+        compute: (values: unknown[]) => unknown
+    ) => {
+        const field = state.get(name);
+        if (!field?.compute) return;
+
+        const next = { ...field, computedFrom: from, compute };
+        const value = _compute(next);
+        state.set(name, { ...next, value, initial: value });
+        if (Object.is(value, field.value)) return;
+
+        _notify(name);
+        _recompute(name);
     };
 
     const setValue = (name: string, value: unknown) => {
         const field = state.get(name);
-        if (!field) return;
+        if (!field || field.compute) return;
 
         state.set(name, {
             ...field,
@@ -79,6 +194,32 @@ export function createFieldStore(): FieldStore {
             touched: field.value !== value || field.touched,
         });
         _notify(name);
+        _recompute(name);
+    };
+
+    const reindex = (
+        path: string,
+        map: (index: number) => number | undefined
+    ) => {
+        const moved = new Map<string, FieldContext>();
+        for (const [name, field] of Array.from(state.entries())) {
+            if (!name.startsWith(`${path}.`)) continue;
+
+            const [index = "", ...rest] = name
+                .slice(path.length + 1)
+                .split(".");
+            if (!/^\d+$/.test(index)) continue;
+            state.delete(name);
+
+            const next = map(Number(index));
+            if (next !== undefined) {
+                moved.set([path, next, ...rest].join("."), field);
+            }
+        }
+
+        for (const [name, field] of moved) state.set(name, field);
+        _recomputeAll();
+        _notifyAll();
     };
 
     const getField = (name: string) => state.get(name);
@@ -87,9 +228,13 @@ export function createFieldStore(): FieldStore {
         getFields,
         getSnapshot,
         subscribe,
+        subscribeAll,
         reset,
         resetField,
         register,
+        restore,
+        reindex,
+        setComputed,
         setValue,
         getField,
     };
@@ -0,0 +1,137 @@
+import { matches } from "../../utils";
+import type {
+    ErrorStore,
+    FieldStore,
+    FormState,
+    FormStatus,
+    FormStore,
+    FUNC,
+} from "../types";
+import { composeParsed, composeSchema } from "../utils";
+
+/**
+ * Creates a FormStore instance for tracking aggregate form state.
+ *
+ * Dirty and touched fields are derived from the field store (computed fields
+ * excluded), and the snapshot is refreshed whenever either store changes
+ * (including field registration). The form is valid when no errors are reported
+ * and the field values pass the composed form schema; the schema is checked in
+ * the background on every field change, so untouched invalid fields make the
+ * form invalid too. Lifecycle flags (validating, submitting, submit count) are
+ * set explicitly.
+ *
+ * @param fields - The FieldStore of the form.
+ * @param errors - The ErrorStore of the form.
+ * @returns A FormStore object with methods for reading, updating and
+ *   subscribing to form state.
+ */
+export function createFormStore(
+    fields: FieldStore,
+    errors: ErrorStore
+): FormStore {
+    let status: FormStatus = {
+        isValidating: false,
+        isSubmitting: false,
+        submitCount: 0,
+        submitError: undefined,
+    };
+    let isSchemaValid = false;
+    let version = 0;
+    let snapshot: FormState = _compute();
+    const subscribers = new Set<FUNC>();
+
+    // Helpers
+    function _compute(): FormState {
+        const dirtyFields: string[] = [];
+        const touchedFields: string[] = [];
+        for (const [name, field] of fields.getFields()) {
+            if (field.compute) continue;
+            if (!isEqual(field.initial, field.value)) dirtyFields.push(name);
+            if (field.touched) touchedFields.push(name);
+        }
+
+        return {
+            ...status,
+            isDirty: dirtyFields.length > 0,
+            dirtyFields,
+            isTouched: touchedFields.length > 0,
+            touchedFields,
+            isValid: isSchemaValid && errors.getErrors().size === 0,
+        };
+    }
+
+    const _refresh = () => {
+        const next = _compute();
+        if (isSameState(snapshot, next)) return;
+
+        snapshot = next;
+        subscribers.forEach((fn) => fn());
+    };
+
+    // Only the result of the latest check is applied
+    const _check = async () => {
+        const current = ++version;
+        const all = fields.getFields();
+
+        let valid = true;
+        try {
+            await composeSchema(all).validate(composeParsed(all), {
+                strict: false,
+                stripUnknown: true,
+            });
+        } catch {
+            valid = false;
+        }
+
+        if (current !== version || valid === isSchemaValid) return;
+        isSchemaValid = valid;
+        _refresh();
+    };
+
+    fields.subscribeAll(() => {
+        void _check();
+        _refresh();
+    });
+    errors.subscribeAll(_refresh);
+    void _check();
+
+    // Store API
+    const getSnapshot = () => snapshot;
+
+    const subscribe = (fn: FUNC) => {
+        subscribers.add(fn);
+        return () => subscribers.delete(fn);
+    };
+
+    const setStatus = (next: Partial<FormStatus>) => {
+        status = { ...status, ...next };
+        _refresh();
+    };
+
+    return {
+        getSnapshot,
+        subscribe,
+        setStatus,
+    };
+}
+
+/**
+ * Deeply compares two field values using `matches` in both directions, so added
+ * or removed properties and items are detected.
+ */
+function isEqual(a: unknown, b: unknown): boolean {
+    return matches(a, b) && matches(b, a);
+}
+
+/** Checks whether two form state snapshots are equivalent. */
+function isSameState(a: FormState, b: FormState): boolean {
+    return (
+        a.isValid === b.isValid &&
+        a.isValidating === b.isValidating &&
+        a.isSubmitting === b.isSubmitting &&
+        a.submitCount === b.submitCount &&
+        a.submitError === b.submitError &&
+        a.dirtyFields.join("\n") === b.dirtyFields.join("\n") &&
+        a.touchedFields.join("\n") === b.touchedFields.join("\n")
+    );
+}
@@ -37,6 +37,30 @@ export interface LocalizedMessages {
           };
 }
 
+/**
+ * Result of an asynchronous field validator.
+ *
+ * - A string is the failed rule name, localized like Yup rules.
+ * - An object is the failed rule with an optional explicit message.
+ * - Nullish values mean the value is valid.
+ */
+export type AsyncValidationResult =
+    string | { rule: string; message?: string } | null | undefined | void;
+
+/**
+ * Asynchronous field validator, e.g. a server-side uniqueness check.
+ *
+ * @template T - The type of the field value.
+ * @param value - The field's raw value.
+ * @param options - Validation options with an abort `signal` that is aborted
+ *   once a newer validation starts.
+ * @returns The validation result.
+ */
+export type AsyncValidator<T = unknown> = (
+    value: T,
+    options: { signal: AbortSignal }
+) => Promise<AsyncValidationResult>;
+
 /**
  * A collection of validation errors for a specific field.
  *
@@ -67,7 +91,7 @@ export interface ErrorStore {
      * Returns the current map of all field errors.
      *
      * @returns A Map where keys are field paths and values are FieldErrors
-     *   objects.
+     *   objects; a new Map is returned whenever errors change.
      */
     getErrors: () => Map<string, FieldErrors>;
 
@@ -91,6 +115,14 @@ export interface ErrorStore {
      */
     subscribe: (path: string, fn: FUNC) => () => boolean | undefined;
 
+    /**
+     * Subscribes to changes of any field's errors.
+     *
+     * @param fn - Callback function invoked when any errors change.
+     * @returns A function that unsubscribes the listener when called.
+     */
+    subscribeAll: (fn: FUNC) => () => boolean;
+
     /**
      * Sets the localized error messages and current locale.
      *
@@ -118,17 +150,22 @@ export interface ErrorStore {
      * Clears errors for a specific field.
      *
      * @param path - The field path to clear errors for.
+     * @param deep - Whether to clear errors of nested paths (e.g.,
+     *   "users.0.email" for "users") too. Defaults to false.
      * @returns Void
      */
-    clear: (path: string) => void;
+    clear: (path: string, deep?: boolean) => void;
 
     /**
      * Parses and stores validation errors from a Yup ValidationError object.
      *
      * @param e - The error to parse (typically a Yup ValidationError).
+     * @param paths - Optional field paths to replace errors of (including
+     *   nested paths); errors of other fields are kept. All errors are replaced
+     *   when omitted.
      * @returns Void
      */
-    parseForm: (e: unknown) => void;
+    parseForm: (e: unknown, paths?: string[]) => void;
 
     /**
      * Parses and stores errors from a server response object.
@@ -147,9 +184,23 @@ export interface ErrorStore {
      *
      * @param path - The field path to associate with these errors.
      * @param e - The error to parse (typically a Yup ValidationError).
+     * @param deep - Whether to keep nested error paths relative to `path`
+     *   (e.g., "[0].email" is stored as "users.0.email") and replace nested
+     *   errors. Defaults to false.
      * @returns Void
      */
-    parseField: (path: string, e: unknown) => void;
+    parseField: (path: string, e: unknown, deep?: boolean) => void;
+
+    /**
+     * Moves errors of array items after items are inserted, removed or
+     * reordered.
+     *
+     * @param path - The array field path (e.g., "users").
+     * @param map - Maps an old item index to its new index, or `undefined` when
+     *   the item was removed.
+     * @returns Void
+     */
+    reindex: (path: string, map: (index: number) => number | undefined) => void;
 
     /**
      * Manually sets an error for a field and validation rule.
@@ -195,14 +246,24 @@ export interface FieldStore {
      */
     subscribe: (name: string, fn: FUNC) => () => boolean | undefined;
 
+    /**
+     * Subscribes to changes of any field.
+     *
+     * @param fn - Callback function invoked when any field's context changes.
+     * @returns A function that unsubscribes the listener when called.
+     */
+    subscribeAll: (fn: FUNC) => () => boolean;
+
     /**
      * Resets multiple fields to their initial values (or provided values).
      *
      * @param values - An object mapping field names to their reset values.
-     *   Fields not in this map will use their stored initial value.
+     *   Fields not in this map are left untouched.
+     * @param asInitial - Whether provided values also become the new initial
+     *   values used for dirty tracking and later resets. Defaults to false.
      * @returns Void
      */
-    reset: (values: Record<string, unknown>) => void;
+    reset: (values: Record<string, unknown>, asInitial?: boolean) => void;
 
     /**
      * Resets a single field to its initial value or a provided value.
@@ -210,9 +271,11 @@ export interface FieldStore {
      * @param name - The field name to reset.
      * @param value - Optional value to reset to. If not provided, the field's
      *   initial value is used.
+     * @param asInitial - Whether a provided value also becomes the new initial
+     *   value. Defaults to false.
      * @returns Void
      */
-    resetField: (name: string, value: unknown) => void;
+    resetField: (name: string, value: unknown, asInitial?: boolean) => void;
 
     /**
      * Registers a new field or updates an existing field's context.
@@ -225,9 +288,47 @@ export interface FieldStore {
      */
     register: <T = unknown>(name: string, context: FieldContext<T>) => void;
 
+    /**
+     * Moves fields of array items after items are inserted, removed or
+     * reordered, e.g. "items.2.name" to "items.1.name".
+     *
+     * @param path - The field array path (e.g., "items").
+     * @param map - Maps an old item index to its new index, or `undefined` when
+     *   the item was removed (its fields are unregistered).
+     * @returns Void
+     */
+    reindex: (path: string, map: (index: number) => number | undefined) => void;
+
+    /**
+     * Restores saved values (e.g., a form draft) in place of current values.
+     *
+     * Initial values are kept, so restored fields count as dirty. Fields
+     * registering later take their restored value too, until the next reset.
+     * Computed and sensitive fields are never restored.
+     *
+     * @param values - An object mapping field names to their restored values.
+     * @returns Void
+     */
+    restore: (values: Record<string, unknown>) => void;
+
+    /**
+     * Updates the source fields and compute function of a computed field, and
+     * recomputes its value (and dependent computed fields).
+     *
+     * @param name - The computed field name.
+     * @param from - Names of the fields the value is derived from.
+     * @param compute - Derives the value from the values of `from`.
+     * @returns Void
+     */
+    setComputed: (
+        name: string,
+        from: string[],
+        compute: (values: unknown[]) => unknown
+    ) => void;
+
     /**
      * Updates a field's value and marks it as touched if the new value differs
-     * from the current value.
+     * from the current value. Computed fields are ignored.
      *
      * @param name - The field name.
      * @param value - The new value to set.
@@ -282,6 +383,9 @@ export interface FieldContext<T = unknown> {
      */
     parse?: (value: T) => unknown;
 
+    /** Optional asynchronous validator run after the schema passes. */
+    asyncValidate?: AsyncValidator<T>;
+
     /**
      * Optional function to transform the field value for external serialization
      * (e.g., API submission).
@@ -299,6 +403,106 @@ export interface FieldContext<T = unknown> {
      * @returns A string or Blob suitable for FormData.append().
      */
     serializeFormData?: (value: T) => string | Blob;
+
+    /** Whether the value must never be stored in form drafts. */
+    sensitive?: boolean;
+
+    /**
+     * Whether the field is the root of a field array (see useFieldArray). Its
+     * value holds the item keys, while item values are stored in their own
+     * fields (e.g., "items.0.name"); it serializes to an array of the items.
+     */
+    list?: boolean;
+
+    /** Names of the fields a computed field derives its value from. */
+    computedFrom?: string[];
+
+    /**
+     * Derives the value of a computed field. Computed fields are updated by the
+     * store whenever a source field changes and cannot be set directly.
+     *
+     * @param values - Current values of the `computedFrom` fields, in order.
+     * @returns The computed value.
+     */
+    compute?: (values: unknown[]) => unknown;
+}
+
+/** Aggregate state of an entire form. */
+export interface FormState {
+    /** Whether any field value differs from its initial value. */
+    isDirty: boolean;
+
+    /** Names of fields whose value differs from their initial value. */
+    dirtyFields: string[];
+
+    /** Whether any field has been interacted with by the user. */
+    isTouched: boolean;
+
+    /** Names of fields that have been interacted with by the user. */
+    touchedFields: string[];
+
+    /**
+     * Whether no validation errors are reported and all field values pass their
+     * schemas, including fields not validated yet.
+     */
+    isValid: boolean;
+
+    /** Whether a form validation is in progress. */
+    isValidating: boolean;
+
+    /** Whether a form submission is in progress. */
+    isSubmitting: boolean;
+
+    /** Number of form validations requested for submission. */
+    submitCount: number;
+
+    /**
+     * The error of the last submission, if it failed for another reason than
+     * invalid fields (e.g., a network error thrown by the submit handler).
+     * Cleared when a new submission starts.
+     */
+    submitError: unknown;
+}
+
+/**
+ * Form lifecycle flags that are set explicitly rather than derived from field
+ * and error stores.
+ */
+export type FormStatus = Pick<
+    FormState,
+    "isValidating" | "isSubmitting" | "submitCount" | "submitError"
+>;
+
+/**
+ * Store for aggregate form state.
+ *
+ * Derives dirty, touched and validity state from the field and error stores and
+ * tracks lifecycle flags, with subscription support for reactive updates.
+ */
+export interface FormStore {
+    /**
+     * Returns the current form state.
+     *
+     * @returns An immutable FormState snapshot; a new object is returned only
+     *   when the state changes.
+     */
+    getSnapshot: () => FormState;
+
+    /**
+     * Subscribes to form state changes.
+     *
+     * @param fn - Callback function invoked when the form state changes.
+     * @returns A function that unsubscribes the listener when called.
+     */
+    subscribe: (fn: FUNC) => () => boolean;
+
+    /**
+     * Updates form lifecycle flags.
+     *
+     * @param status - The flags to update.
+     * @returns Void
+     */
+    setStatus: (status: Partial<FormStatus>) => void;
 }
 
 /** The context for an entire form, containing shared field and error stores. */
@@ -311,4 +515,7 @@ export interface FormContext {
 
     /** The shared ErrorStore for managing validation errors. */
     errors: ErrorStore;
+
+    /** The shared FormStore for aggregate form state. */
+    state: FormStore;
 }
@@ -0,0 +1,20 @@
+import { isString } from "../../utils";
+import type { AsyncValidationResult } from "../types";
+
+/**
+ * Normalizes the result of an asynchronous field validator.
+ *
+ * - `"taken"` becomes `{ rule: "taken" }`.
+ * - Nullish values and blank rules are treated as valid.
+ *
+ * @param result - The validator result.
+ * @returns The failed rule and optional message, or undefined if valid.
+ */
+export function resolveAsyncResult(
+    result: AsyncValidationResult
+): { rule: string; message?: string } | undefined {
+    if (!result) return undefined;
+
+    const failure = isString(result) ? { rule: result } : result;
+    return failure.rule.trim() ? failure : undefined;
+}
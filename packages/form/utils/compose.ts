@@ -0,0 +1,104 @@
+import { ObjectSchema, type Schema } from "yup";
+import type { FieldContext } from "../types";
+import { flatternPath, isWithinPath, nestPaths, readPath } from "./path";
+import { nestSchema, resolveYupDefault } from "./yup";
+
+/**
+ * Composes the form schema from registered fields.
+ *
+ * Dot-path field names become nested object schemas, see `nestSchema`. Field
+ * arrays contribute their `array().of(...)` schema, so list rules apply and
+ * items added later are validated too; their item fields are left out.
+ *
+ * @param fields - Registered fields by name.
+ * @returns The composed object schema.
+ */
+export function composeSchema(
+    fields: Map<string, FieldContext>
+): ObjectSchema<object> {
+    const lists = Array.from(fields)
+        .filter(([, field]) => field.list)
+        .map(([name]) => name);
+
+    return nestSchema(
+        nestPaths(
+            Array.from(fields.entries())
+                .filter(
+                    ([name]) =>
+                        !lists.some(
+                            (list) =>
+                                list !== name && isWithinPath(name, [list])
+                        )
+                )
+                .map(([name, field]) => [name, field.schema])
+        )
+    );
+}
+
+/**
+ * Composes the nested form values passed to the validator, transformed by each
+ * field's `parse` function. Field array roots compose to an array of their item
+ * fields.
+ *
+ * @param fields - Registered fields by name.
+ * @returns The nested parsed values.
+ */
+export function composeParsed(
+    fields: Map<string, FieldContext>
+): Record<string, unknown> {
+    return nestPaths(
+        Array.from(fields.entries()).map(([name, field]) => [
+            name,
+            field.list
+                ? []
+                : field.parse
+                  ? field.parse(field.value)
+                  : field.value,
+        ])
+    );
+}
+
+/**
+ * Resolves the fields of a field array item: one field per key of an object
+ * item schema (e.g., "items.0.name"), or the item itself otherwise (e.g.,
+ * "tags.0").
+ *
+ * @param name - The field array name.
+ * @param index - The item index.
+ * @param item - The item value.
+ * @param schema - The item schema.
+ * @returns Field names with their values and schemas.
+ */
+export function itemFields(
+    name: string,
+    index: number,
+    item: unknown,
+    schema: Schema
+): Array<[string, unknown, Schema]> {
+    if (!(schema instanceof ObjectSchema)) {
+        return [[`${name}.${index}`, item, schema]];
+    }
+
+    return Object.entries(schema.fields as Record<string, Schema>).map(
+        ([key, field]) => [
+            `${name}.${index}.${key}`,
+            readPath(item, key) ?? resolveYupDefault(field),
+            field,
+        ]
+    );
+}
+
+/**
+ * Resolves a dependency key of a field schema to an absolute field name.
+ *
+ * Yup `ref` and `when` keys are relative to the parent object, so for field
+ * `"address.city"` the key `"country"` resolves to `"address.country"`.
+ *
+ * @param name - The dependent field name.
+ * @param key - The dependency key.
+ * @returns The absolute field name.
+ */
+export function siblingPath(name: string, key: string): string {
+    const parent = flatternPath(name).split(".").slice(0, -1).join(".");
+    return parent ? `${parent}.${key}` : key;
+}
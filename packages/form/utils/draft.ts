@@ -0,0 +1,103 @@
+import { isObject } from "../../utils";
+
+/**
+ * Resolves the storage used for form drafts.
+ *
+ * @param option - `"local"`, `"session"` or a Storage-like object.
+ * @returns The storage, or undefined outside of the browser.
+ */
+export function resolveDraftStorage(
+    option: "local" | "session" | Storage
+): Storage | undefined {
+    if (typeof option === "object") return option;
+    if (typeof window === "undefined") return undefined;
+
+    try {
+        return option === "session"
+            ? window.sessionStorage
+            : window.localStorage;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Reads a stored form draft.
+ *
+ * Drafts saved with a different version are discarded.
+ *
+ * @param storage - The draft storage.
+ * @param key - The draft key.
+ * @param version - The expected draft version.
+ * @returns The draft values by field name, or an empty object.
+ */
+export function readDraft(
+    storage: Storage | undefined,
+    key: string,
+    version: string | number
+): Record<string, unknown> {
+    try {
+        const raw = storage?.getItem(key);
+        if (!raw) return {};
+
+        const draft: unknown = JSON.parse(raw);
+        if (
+            isObject<Record<string, unknown>>(draft) &&
+            draft.version === version &&
+            isObject<Record<string, unknown>>(draft.values)
+        ) {
+            return draft.values;
+        }
+
+        storage?.removeItem(key);
+        return {};
+    } catch {
+        return {};
+    }
+}
+
+/**
+ * Stores a form draft, or removes it when there are no values.
+ *
+ * @param storage - The draft storage.
+ * @param key - The draft key.
+ * @param version - The draft version.
+ * @param values - The draft values by field name.
+ * @returns True on success.
+ */
+export function writeDraft(
+    storage: Storage | undefined,
+    key: string,
+    version: string | number,
+    values: Record<string, unknown>
+): boolean {
+    try {
+        if (Object.keys(values).length === 0) {
+            storage?.removeItem(key);
+        } else {
+            storage?.setItem(key, JSON.stringify({ version, values }));
+        }
+        return !!storage;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Checks whether a value can be stored in a draft.
+ *
+ * Values containing files or blobs (at any depth) are not serializable.
+ *
+ * @param v - The value to check.
+ * @returns True if v can be stored as JSON without losing files.
+ */
+export function isDraftable(v: unknown): boolean {
+    if (typeof Blob !== "undefined" && v instanceof Blob) return false;
+    if (typeof FileList !== "undefined" && v instanceof FileList) return false;
+    if (typeof v === "function" || typeof v === "symbol") return false;
+    if (Array.isArray(v)) return v.every(isDraftable);
+    if (isObject<Record<string, unknown>>(v)) {
+        return Object.values(v).every(isDraftable);
+    }
+    return true;
+}
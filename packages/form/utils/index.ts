@@ -1,3 +1,7 @@
+export * from "./async";
+export * from "./compose";
+export * from "./draft";
 export * from "./localization";
 export * from "./path";
+export * from "./response";
 export * from "./yup";
@@ -1,3 +1,5 @@
+import { isArray, isObject } from "../../utils";
+
 /**
  * Flattens a field path by converting array bracket notation to dot notation.
  *
@@ -49,3 +51,146 @@ export function asteriskPath(path: string): string {
         .map((part) => (/^\d+$/.test(part) ? "*" : part))
         .join(".");
 }
+
+/**
+ * Checks whether a field path equals or is nested under one of the given paths.
+ *
+ * - `"address.city"` is within `["address"]` and `["address.city"]`.
+ * - `"addressLine"` is not within `["address"]`.
+ *
+ * @param path - The field path.
+ * @param scopes - The parent paths.
+ * @returns True if the path is within any scope.
+ */
+export function isWithinPath(path: string, scopes: string[]): boolean {
+    const flat = flatternPath(path);
+    return scopes.some((scope) => {
+        const parent = flatternPath(scope);
+        return flat === parent || flat.startsWith(`${parent}.`);
+    });
+}
+
+/**
+ * Reads a value from a nested object by field path.
+ *
+ * - For `{ address: { city: "Tehran" } }` and `"address.city"`, returns
+ *   `"Tehran"`.
+ *
+ * @param source - The object to read from.
+ * @param path - The field path.
+ * @returns The value at the path, or undefined if any segment is missing.
+ */
+export function readPath(source: unknown, path: string): unknown {
+    let value = source;
+    for (const key of flatternPath(path).split(".")) {
+        if (!isObject<Record<string, unknown>>(value) && !isArray(value)) {
+            return undefined;
+        }
+        value = (value as Record<string, unknown>)[key];
+    }
+    return value;
+}
+
+/**
+ * Writes a value into a nested object by field path, creating intermediate
+ * objects (or arrays, before numeric segments) as needed. Existing intermediate
+ * objects and arrays are copied, never mutated.
+ *
+ * - For `"address.city"`, sets `target.address.city`.
+ * - For `"items.0.name"`, sets `target.items[0].name`.
+ *
+ * @param target - The object to write into.
+ * @param path - The field path.
+ * @param value - The value to write.
+ * @returns Void
+ */
+export function writePath(
+    target: Record<string, unknown>,
+    path: string,
+    value: unknown
+) {
+    const keys = flatternPath(path).split(".");
+
+    let node = target;
+    keys.forEach((key, i) => {
+        if (i === keys.length - 1) {
+            node[key] = value;
+            return;
+        }
+
+        const next = node[key];
+        node = node[key] = (
+            isIndex(keys[i + 1]!)
+                ? Array.isArray(next)
+                    ? [...(next as unknown[])]
+                    : []
+                : isPlainObject(next)
+                  ? { ...next }
+                  : {}
+        ) as Record<string, unknown>;
+    });
+}
+
+/**
+ * Builds a nested object from a list of field paths and values.
+ *
+ * - For `[["address.city", "Tehran"], ["name", "Ali"]]`, returns `{ address: {
+ *   city: "Tehran" }, name: "Ali" }`.
+ *
+ * @param entries - Field paths and their values.
+ * @returns The nested object.
+ */
+export function nestPaths(
+    entries: Iterable<[string, unknown]>
+): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    for (const [path, value] of entries) writePath(result, path, value);
+    return result;
+}
+
+/**
+ * Converts a field path to a Yup path, with numeric segments as array indexes.
+ *
+ * - For `"items.0.name"`, returns `"items[0].name"`.
+ *
+ * @param path - The field path.
+ * @returns The Yup path, e.g. for `validateAt`.
+ */
+export function yupPath(path: string): string {
+    return flatternPath(path)
+        .split(".")
+        .map((key, i) => (isIndex(key) ? `[${key}]` : i > 0 ? `.${key}` : key))
+        .join("");
+}
+
+/**
+ * Converts a field path to a bracketed FormData key.
+ *
+ * - For `"address.city"`, returns `"address[city]"`.
+ * - For `"items.0.name"`, returns `"items[0][name]"`.
+ *
+ * @param path - The field path.
+ * @returns The FormData key.
+ */
+export function formDataKey(path: string): string {
+    const [root = "", ...rest] = flatternPath(path).split(".");
+    return root + rest.map((key) => `[${key}]`).join("");
+}
+
+/**
+ * Checks whether a value is a plain object literal.
+ *
+ * @param v - The value to check.
+ * @returns True if v is an object created by `{}` or `Object.create(null)`.
+ */
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+    if (!isObject(v)) return false;
+
+    const proto = Object.getPrototypeOf(v) as unknown;
+    return proto === Object.prototype || proto === null;
+}
+
+/** Checks whether a path segment is an array index. */
+function isIndex(key: string): boolean {
+    return /^\d+$/.test(key);
+}
@@ -0,0 +1,40 @@
+import { isObject } from "../../utils";
+
+/**
+ * Extracts field errors from an HTTP-style error thrown by a request.
+ *
+ * Supports errors carrying a status and body, such as a fetch `Response`, an
+ * error with a `response` property (axios, ky) or a plain `{ status, data }`
+ * object. Only `422 Unprocessable Entity` responses are considered; the body
+ * `errors` property is used when present (e.g., Laravel), otherwise the whole
+ * body.
+ *
+ * @param e - The thrown error.
+ * @returns The field errors object accepted by `ErrorStore.parseResponse`, or
+ *   undefined if the error is not a validation response or its body cannot be
+ *   read.
+ */
+export async function extractResponseErrors(
+    e: unknown
+): Promise<Record<string, unknown> | undefined> {
+    if (!isObject<Record<string, unknown>>(e)) return undefined;
+
+    const response = isObject<Record<string, unknown>>(e.response)
+        ? e.response
+        : e;
+    const status = response.status ?? response.statusCode;
+    if (Number(status) !== 422) return undefined;
+
+    let body = response.data ?? response.body;
+    if (typeof Response !== "undefined" && response instanceof Response) {
+        // Consumed bodies cannot be cloned or read again
+        try {
+            body = await response.clone().json();
+        } catch {
+            return undefined;
+        }
+    }
+
+    if (!isObject<Record<string, unknown>>(body)) return undefined;
+    return isObject<Record<string, unknown>>(body.errors) ? body.errors : body;
+}
@@ -1,13 +1,18 @@
 import {
     ArraySchema,
     BooleanSchema,
+    isSchema,
+    mixed,
     NumberSchema,
+    object,
     setLocale,
     StringSchema,
+    tuple,
+    type ObjectSchema,
     type Schema,
     type ValidationError,
 } from "yup";
-import { isArray, isObject } from "../../utils";
+import { isArray, isObject, isString } from "../../utils";
 
 /**
  * Internal structure representing parsed Yup validation errors.
@@ -105,6 +110,76 @@ export function resolveYupDefault<T>(schema: Schema): T {
     return null as T;
 }
 
+/**
+ * Builds a Yup object schema from a nested tree of schemas.
+ *
+ * Nested plain objects become nested object schemas, e.g. `{ address: { city:
+ * string() } }` becomes `object({ address: object({ city: string() }) })`.
+ * Field arrays arrive as their own `array().of(...)` schema; arrays of schemas
+ * only come from indexed fields outside of field arrays (e.g., "tags.0" bound
+ * by useField alone) and become tuple schemas of the registered indexes.
+ *
+ * @param tree - Nested object whose leaves are Yup schemas (see `nestPaths`).
+ * @returns The composed object schema.
+ */
+export function nestSchema(
+    tree: Record<string, unknown>
+): ObjectSchema<object> {
+    return object(
+        Object.fromEntries(
+            Object.entries(tree).map(([key, v]) => [key, nestNode(v)])
+        )
+    );
+}
+
+/** Builds the schema of a single node of a schema tree. */
+function nestNode(v: unknown): Schema {
+    if (isSchema(v)) return v as Schema;
+    if (isArray(v)) {
+        // Sparse items (e.g., while reindexing) accept any value
+        const items = Array.from(v, (item) =>
+            item === undefined ? mixed() : nestNode(item)
+        );
+        return tuple(items as [Schema, ...Schema[]]) as unknown as Schema;
+    }
+    return nestSchema(v as Record<string, unknown>);
+}
+
+/**
+ * Collects the sibling keys a schema depends on.
+ *
+ * Includes `when` conditions and `ref` values used by `oneOf`, `notOneOf` and
+ * test parameters (e.g., `min(ref("start"))`). Context references (`$key`) are
+ * ignored.
+ *
+ * @param schema - The Yup schema to inspect.
+ * @returns Dependency keys relative to the schema's parent object.
+ */
+export function resolveSchemaDeps(schema: Schema): string[] {
+    const deps = new Set<string>(schema.deps);
+    const collect = (v: unknown) => {
+        if (isArray(v)) {
+            v.forEach(collect);
+        } else if (isObject<Record<string, unknown>>(v)) {
+            // Described refs: `{ type: "ref", key }` or Reference objects
+            if ((v.type === "ref" || "isSibling" in v) && isString(v.key)) {
+                deps.add(v.key);
+            } else {
+                Object.values(v).forEach(collect);
+            }
+        }
+    };
+
+    const description = schema.describe();
+    collect([
+        "oneOf" in description ? description.oneOf : [],
+        "notOneOf" in description ? description.notOneOf : [],
+        "tests" in description ? description.tests : [],
+    ]);
+
+    return Array.from(deps).filter((key) => !key.startsWith("$"));
+}
+
 /**
  * Parses Yup validation errors into a structured format.
  *
@@ -1,13 +1,17 @@
-import { useCallback, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 
 /**
  * Creates a namespaced storage helper for a Storage implementation.
  *
  * Keys are normalized and optionally prefixed before access. The returned API
  * provides safe read and write helpers for string, number, and boolean values.
+ * Changes made to the same storage by other tabs (through `storage` events)
+ * refresh the helpers, so values read during render stay in sync.
  *
  * @param storage - Storage-like instance used for persistence, such as
- *   `localStorage`, `sessionStorage`, or a custom storage object.
+ *   `localStorage`, `sessionStorage`, or a custom storage object. When
+ *   `undefined` (e.g. during server rendering) reads return `undefined` and
+ *   writes fail.
  * @param prefix - Optional key prefix. Defaults to `""`.
  * @returns A storage API with:
  *
@@ -18,7 +22,7 @@ import { useCallback, useMemo, useState } from "react";
  *   - `set(key, value)`: stores a string value and returns `true` on success.
  *   - `remove(key)`: removes a key and returns `true` on success.
  */
-export function useStorage(storage: Storage, prefix?: string) {
+export function useStorage(storage: Storage | undefined, prefix?: string) {
     prefix = prefix?.trim() ?? "";
     const [version, setVersion] = useState(0);
 
@@ -31,13 +35,29 @@ export function useStorage(storage: Storage, prefix?: string) {
         );
     }, [storage]);
 
+    // Sync changes made by other tabs
+    useEffect(() => {
+        if (!isValid || typeof window === "undefined") return;
+
+        const scope = normalizeKeys(prefix!);
+        const handler = (e: StorageEvent) => {
+            if (e.storageArea !== storage) return;
+            if (e.key === null || !scope || e.key.startsWith(`${scope}::`)) {
+                setVersion((v) => v + 1);
+            }
+        };
+
+        window.addEventListener("storage", handler);
+        return () => window.removeEventListener("storage", handler);
+    }, [isValid, storage, prefix]);
+
     const string = useCallback(
         (key: string): string | undefined => {
             key = normalizeKeys(key);
             if (!key || !isValid) return undefined;
 
             try {
-                const value = storage.getItem(normalizeKeys(prefix!, key));
+                const value = storage!.getItem(normalizeKeys(prefix!, key));
                 return value?.trim() ?? undefined;
             } catch {
                 return undefined;
@@ -73,7 +93,7 @@ export function useStorage(storage: Storage, prefix?: string) {
             if (!isValid || !key || !value) return false;
 
             try {
-                storage.setItem(normalizeKeys(prefix!, key), value);
+                storage!.setItem(normalizeKeys(prefix!, key), value);
                 setVersion((v) => v + 1);
                 return true;
             } catch {
@@ -89,7 +109,7 @@ export function useStorage(storage: Storage, prefix?: string) {
             if (!isValid || !key) return false;
 
             try {
-                storage.removeItem(normalizeKeys(prefix!, key));
+                storage!.removeItem(normalizeKeys(prefix!, key));
                 setVersion((v) => v + 1);
                 return true;
             } catch {
@@ -1,2 +1,3 @@
 export * from "./types";
+export * from "./useColumns";
 export * from "./useLister";
@@ -1,14 +1,113 @@
-import type { CompoundType } from "../utils";
+import type { CompoundType, PrimitiveType } from "../utils";
+
+/**
+ * Comparison operators supported by {@link FilterOperator}.
+ *
+ * - `eq`, `ne`, `gt`, `gte`, `lt`, `lte`: Compare against a single operand.
+ * - `between`: Inclusive range between two operands.
+ * - `in`, `nin`: Membership in a list of operands.
+ * - `null`, `notnull`: Null checks without operands.
+ */
+export type OperatorType =
+    | "eq"
+    | "ne"
+    | "gt"
+    | "gte"
+    | "lt"
+    | "lte"
+    | "between"
+    | "in"
+    | "nin"
+    | "null"
+    | "notnull";
+
+/** Operator-aware filter value sent as-is to the backend. */
+export interface FilterOperator<T extends PrimitiveType = PrimitiveType> {
+    /** Comparison operator */
+    op: OperatorType;
+    /** Operands of the operator */
+    value: T[];
+}
 
 /**
  * Key-value map representing active filter values. Each value can be a
- * primitive or structured compound type.
+ * primitive, structured compound type or operator.
+ */
+export type FilterType = Record<string, CompoundType | FilterOperator>;
+
+/** Primitive type of a declared filter value. */
+export type FilterValueType = "string" | "number" | "boolean";
+
+/**
+ * Shape of a declared filter value.
+ *
+ * - `single`: A single primitive value.
+ * - `array`: A list of primitive values.
+ * - `range`: A `{ min, max }` pair of primitive bounds.
+ * - `object`: A record of primitive values.
+ * - `operator`: A {@link FilterOperator} with primitive operands.
+ */
+export type FilterShape = "single" | "array" | "range" | "object" | "operator";
+
+/** Declaration of a single filter in a {@link FilterSchema}. */
+export interface FilterDefinition {
+    /** Primitive type values are coerced to */
+    type: FilterValueType;
+    /** Value shape, defaults to `single` */
+    shape?: FilterShape;
+    /** Allowed primitive values */
+    values?: readonly PrimitiveType[];
+    /** Allowed operators of the `operator` shape, defaults to all */
+    operators?: readonly OperatorType[];
+    /** Value used in place of invalid input */
+    default?: CompoundType | FilterOperator;
+}
+
+/** Map of filter names to their declarations. */
+export type FilterSchema = Record<string, FilterDefinition>;
+
+/** Primitive value type resolved from a {@link FilterDefinition}. */
+export type InferFilterPrimitive<D extends FilterDefinition> = D extends {
+    values: ReadonlyArray<infer V>;
+}
+    ? V
+    : D["type"] extends "number"
+      ? number
+      : D["type"] extends "boolean"
+        ? boolean
+        : string;
+
+/** Filter value type resolved from a {@link FilterDefinition}. */
+export type InferFilter<D extends FilterDefinition> = D["shape"] extends "array"
+    ? Array<InferFilterPrimitive<D>>
+    : D["shape"] extends "range"
+      ? { min?: InferFilterPrimitive<D>; max?: InferFilterPrimitive<D> }
+      : D["shape"] extends "object"
+        ? Record<string, InferFilterPrimitive<D>>
+        : D["shape"] extends "operator"
+          ? FilterOperator<InferFilterPrimitive<D>>
+          : InferFilterPrimitive<D>;
+
+/**
+ * Filter values resolved from a {@link FilterSchema}. Falls back to
+ * {@link FilterType} when no specific schema is declared.
  */
-export type FilterType = Record<string, CompoundType>;
+export type InferFilters<S extends FilterSchema> = FilterSchema extends S
+    ? FilterType
+    : { [K in keyof S]?: InferFilter<S[K]> };
 
 /** Allowed sort directions for sortable fields. */
 export type OrderType = "asc" | "desc";
 
+/**
+ * Pagination strategy of the lister.
+ *
+ * - `offset`: Page based navigation, records are replaced per page.
+ * - `infinite`: Page based loading, records are accumulated across pages.
+ * - `cursor`: Cursor based loading, records are accumulated across cursors.
+ */
+export type PaginationMode = "offset" | "infinite" | "cursor";
+
 /** Descriptor for a sorting rule applied to a specific field. */
 export interface SortType {
     /** Field name used for sorting */
@@ -22,13 +121,243 @@ export interface SortType {
  *
  * @param params Current resolved parameters.
  * @param encoded Pre-encoded version of the parameters (e.g. for URL usage).
+ * @param signature Signature of the parameters; pass it to `parseResponse` to
+ *   detect stale responses.
+ */
+export type Callback = (
+    params: ListerParams,
+    encoded: string,
+    signature: string
+) => void;
+
+/** Context passed to a {@link Fetcher} for each request. */
+export interface FetcherContext {
+    /** Signal aborted when a newer request supersedes this one */
+    signal: AbortSignal;
+}
+
+/**
+ * Signature of the data fetcher owned by the lister.
+ *
+ * The resolved value is parsed like a response passed to `parseResponse`.
+ *
+ * @param params Current resolved parameters.
+ * @param context Request context including the abort signal.
+ */
+export type Fetcher = (
+    params: ListerParams,
+    context: FetcherContext
+) => Promise<unknown>;
+
+/**
+ * Raw pagination envelope extracted from a backend response.
+ *
+ * Values are validated by the lister; missing `pages`, `from` and `to` are
+ * computed from `total`, `page` and `limit`.
+ */
+export interface ListerResponse {
+    /** Records of the current page */
+    records?: unknown;
+    /** Total number of matched results */
+    total?: unknown;
+    /** Total number of pages */
+    pages?: unknown;
+    /** Inclusive index of first item in current page */
+    from?: unknown;
+    /** Inclusive index of last item in current page */
+    to?: unknown;
+    /** Cursor of the next chunk */
+    nextCursor?: unknown;
+    /** Current page (1-based) reported by the backend */
+    page?: unknown;
+    /** Page size reported by the backend */
+    limit?: unknown;
+    /** Search query reported by the backend */
+    search?: unknown;
+    /** Sorting rules reported by the backend */
+    sorts?: unknown;
+    /** Additional metadata */
+    meta?: Record<string, unknown>;
+}
+
+/**
+ * Extracts a {@link ListerResponse} from a backend response.
+ *
+ * @param response Raw response returned by the backend.
+ * @returns The envelope, or `null` when the response is invalid.
+ */
+export type ResponseAdapter = (response: unknown) => ListerResponse | null;
+
+/** Built-in response adapters. */
+export type ResponseFormat =
+    "default" | "laravel" | "jsonapi" | "spring" | "graphql";
+
+/**
+ * Searchable field of a local record: a (dot separated) field name or an
+ * accessor returning the searchable value.
+ */
+export type SearchField<T> = string | ((record: T) => unknown);
+
+/** Unique identifier of a record. */
+export type RowId = string | number;
+
+/**
+ * Selection strategy.
+ *
+ * - `include`: only the listed ids are selected.
+ * - `exclude`: every record matching the filter is selected except the listed
+ *   ids.
  */
-export type Callback = (params: ListerParams, encoded: string) => void;
+export type SelectionMode = "include" | "exclude";
+
+/** Row selection state. */
+export interface ListerSelection {
+    /** Selection strategy */
+    mode: SelectionMode;
+    /** Included or excluded ids depending on `mode` */
+    ids: RowId[];
+    /** Filter signature an `exclude` selection belongs to */
+    signature: string;
+}
+
+/** Named preset of lister params. */
+export interface ListerView {
+    /** Unique view name */
+    name: string;
+    /** Encoded `limit`, `search`, `sorts` and `filters` */
+    query: string;
+}
+
+/** Table column declaration. */
+export interface ColumnDefinition {
+    /** Unique column id */
+    id: string;
+    /** Display label */
+    label: string;
+    /** Whether clicking the column toggles sorting */
+    sortable?: boolean;
+    /** Sort field; defaults to `id` */
+    field?: string;
+    /** Whether the column is visible by default; defaults to `true` */
+    visible?: boolean;
+    /** Default width */
+    width?: number;
+}
+
+/** Persisted user column preferences. */
+export interface ColumnState {
+    /** Column ids in display order */
+    order: string[];
+    /** Visibility overrides by column id */
+    visibility: Record<string, boolean>;
+    /** Width overrides by column id */
+    widths: Record<string, number>;
+}
+
+/** Column resolved against user preferences and current sorts. */
+export interface ListerColumn extends ColumnDefinition {
+    /** Whether the column is visible */
+    visible: boolean;
+    /** Current sort direction, if sorted */
+    order?: OrderType;
+    /** Priority of the column in multi-sort, `-1` when not sorted */
+    sortIndex: number;
+}
+
+/** Options of the `useColumns` hook. */
+export interface ColumnsOptions {
+    /** Storage key; shared with the lister of the same key */
+    key: unknown[];
+    /** Persistence backend; should match the lister */
+    storage: ListerStorage;
+    /** Column declarations */
+    columns: ColumnDefinition[];
+    /** Current sorting rules */
+    sorts: SortType[];
+    /** Called with the next sorting rules when a column is clicked */
+    onSort: ((sorts: SortType[]) => void) | null;
+}
+
+/** Column of an exported file. */
+export interface ExportColumn<T> {
+    /** Header label */
+    label: string;
+    /** (Dot separated) field name or accessor of the cell value */
+    value: string | ((record: T) => unknown);
+}
+
+/** Progress of a running export. */
+export interface ExportProgress {
+    /** Number of exported records */
+    loaded: number;
+    /** Total number of records reported by the backend */
+    total: number;
+}
+
+/** Options of a records export. */
+export interface ExportOptions<T> {
+    /** Query params; every page of this query is exported */
+    params: ListerParams;
+    /** Data fetcher requesting each chunk */
+    fetcher: Fetcher;
+    /** Exported columns */
+    columns: Array<ExportColumn<T>>;
+    /** Response shape; defaults to `default` */
+    adapter?: ResponseFormat | ResponseAdapter;
+    /** Page size used while exporting; defaults to `params.limit` */
+    limit?: number;
+    /** Cell delimiter; defaults to `,` */
+    delimiter?: string;
+    /** Signal cancelling the export */
+    signal?: AbortSignal;
+    /** Called after each exported chunk */
+    onProgress?: (progress: ExportProgress) => void;
+}
+
+/**
+ * Persistence backend of the lister.
+ *
+ * - `local`: `localStorage`, shared across tabs.
+ * - `session`: `sessionStorage`, scoped to the tab.
+ * - `memory`: in-memory, kept for the page lifetime.
+ * - Any `Storage` compatible object.
+ */
+export type ListerStorage = "local" | "session" | "memory" | Storage;
+
+/** Navigation policy used when writing lister state to the URL. */
+export type HistoryMode = "push" | "replace";
+
+/** Adapter abstracting read and write access to the URL query string. */
+export interface HistoryAdapter {
+    /** Returns the current query string */
+    read: () => string;
+    /** Writes the query string using the given navigation policy */
+    write: (query: string, mode: HistoryMode) => void;
+    /** Subscribes to external navigation (e.g. back / forward) */
+    subscribe: (fn: () => void) => () => void;
+}
+
+/** Options for two-way URL synchronization. */
+export interface UrlOptions {
+    /** History adapter, defaults to the browser History API */
+    adapter: HistoryAdapter;
+    /** Navigation policy per field, unlisted fields use `replace` */
+    policy: Partial<Record<keyof ListerParams, HistoryMode>>;
+    /** Prefix of query keys owned by the lister */
+    namespace: string;
+}
 
 /** Configuration options for the lister. */
-export interface ListerOptions {
+export interface ListerOptions<
+    TSchema extends FilterSchema = FilterSchema,
+    TRecord = unknown,
+> {
     /** Storage key */
     key: unknown[];
+    /** Persistence backend */
+    storage: ListerStorage;
+    /** Renders with defaults and hydrates persisted state after mount */
+    ssr: boolean;
     /** Callback triggered after any parameter update */
     callback: Callback | null;
     /** Default initial parameters */
@@ -37,6 +366,30 @@ export interface ListerOptions {
     rememberLimit: boolean;
     /** Whether to persist sorting rules */
     rememberSorts: boolean;
+    /** Data fetcher; when set, the lister owns the request lifecycle */
+    fetcher: Fetcher | null;
+    /** Maximum number of cached responses kept per signature */
+    cacheSize: number;
+    /** Pagination strategy */
+    pagination: PaginationMode;
+    /** Keeps the URL query string and lister state in sync */
+    url: Partial<UrlOptions> | boolean;
+    /** Declared filters; unknown filters are dropped and values coerced */
+    schema: TSchema | null;
+    /** Response shape used by `parseResponse` and `fetcher` */
+    responseAdapter: ResponseFormat | ResponseAdapter;
+    /** Resolves the unique identifier of a record for selection */
+    getRowId: (record: TRecord) => RowId;
+    /** Ignores responses whose signature differs from the current one */
+    ignoreStale: boolean;
+    /** In-memory records; when set, the lister queries them locally */
+    data: TRecord[] | null;
+    /** Fields searched in local mode; all primitive fields when empty */
+    searchFields: Array<SearchField<TRecord>>;
+    /** Polling interval in milliseconds; disabled when not positive */
+    refreshInterval: number;
+    /** Applies `limit` and `sorts` persisted by other tabs */
+    sync: boolean;
 }
 
 /** Active parameters used for querying or applying filters. */
@@ -51,6 +404,47 @@ export interface ListerParams {
     sorts: SortType[];
     /** Active filter values */
     filters: FilterType;
+    /** Cursor of the requested chunk in cursor pagination */
+    cursor?: string;
+}
+
+/** Lister parameters with filters typed by a {@link FilterSchema}. */
+export type TypedListerParams<TSchema extends FilterSchema = FilterSchema> =
+    ListerParams & { filters: InferFilters<TSchema> };
+
+/** Partial parameters accepted by `apply`, with typed filters. */
+export type ListerInput<TSchema extends FilterSchema = FilterSchema> = Partial<
+    Omit<ListerParams, "filters"> & { filters: InferFilters<TSchema> }
+>;
+
+/** Data fields resolved from a backend response. */
+export interface ListerResult<T, M> {
+    /** Total number of matched results */
+    total: number;
+    /** Total number of pages */
+    pages: number;
+    /** Inclusive index of first item in current page */
+    from: number;
+    /** Inclusive index of last item in current page */
+    to: number;
+    /** Additional metadata from the response */
+    meta: M;
+    /** Array of records returned by the backend */
+    records: T[];
+    /** Cursor of the next chunk in cursor pagination */
+    nextCursor: string;
+}
+
+/** Request lifecycle state of the lister when a fetcher is used. */
+export interface ListerStatus {
+    /** Whether a request is in flight without cached data to show */
+    isLoading: boolean;
+    /** Whether any request is in flight */
+    isFetching: boolean;
+    /** Error thrown by the last request, if any */
+    error: unknown;
+    /** Time the records were last loaded, if ever */
+    lastUpdatedAt: Date | null;
 }
 
 /** Complete state returned by the lister after resolving response data. */
@@ -68,6 +462,8 @@ export interface ListerData<T, M> {
     sorts: SortType[];
     /** Active filter values */
     filters: FilterType;
+    /** Cursor of the current chunk */
+    cursor: string;
 
     /** Total number of matched results */
     total: number;
@@ -82,4 +478,6 @@ export interface ListerData<T, M> {
     meta: M;
     /** Array of records returned by the backend */
     records: T[];
+    /** Cursor of the next chunk */
+    nextCursor: string;
 }
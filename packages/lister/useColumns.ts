@@ -0,0 +1,157 @@
+import { useCallback, useMemo, useSyncExternalStore } from "react";
+import { useStableCallback, useStorage } from "../hooks";
+import { createKey } from "../utils";
+import type { ColumnState, ColumnsOptions } from "./types";
+import {
+    moveColumn,
+    noSubscribe,
+    parseColumnState,
+    resolveColumns,
+    resolveStorage,
+    toggleSort,
+} from "./utils";
+
+/**
+ * React hook to manage table columns of a lister-driven table.
+ *
+ * Column visibility, order and widths are persisted in the storage of the
+ * lister with the same `key`, and column clicks are mapped to sorting rules.
+ * Persisted preferences are ignored while hydrating server-rendered markup and
+ * applied right after.
+ *
+ * @example
+ *     const lister = useLister({ key: ["users"] });
+ *     const { visibleColumns, sortBy } = useColumns({
+ *         key: ["users"],
+ *         columns: [
+ *             { id: "name", label: "Name", sortable: true },
+ *             { id: "email", label: "Email", visible: false },
+ *         ],
+ *         sorts: lister.sorts,
+ *         onSort: (sorts) => lister.apply({ sorts }),
+ *     });
+ *
+ *     // Toggle asc → desc → none, keeping other sorts on shift-click
+ *     sortBy("name", event.shiftKey);
+ *
+ * @param options - Optional configuration object:
+ * @param options.key - Key prefix for storage persistence.
+ * @param options.storage - Persistence backend; should match the lister.
+ * @param options.columns - Column declarations.
+ * @param options.sorts - Current sorting rules of the lister.
+ * @param options.onSort - Called with the next sorting rules on column click.
+ * @returns An object containing:
+ *
+ *   - **columns**: all columns in display order, resolved with visibility, width
+ *       and sort state.
+ *   - **visibleColumns**: visible columns in display order.
+ *   - **setVisible(id, visible), toggleVisible(id)**: change column visibility.
+ *   - **move(id, index), setOrder(ids)**: change column order.
+ *   - **setWidth(id, width)**: change a column width.
+ *   - **sortBy(id, multi?)**: toggles sorting of a sortable column.
+ *   - **reset()**: restores column declarations defaults.
+ */
+export function useColumns({
+    key = [],
+    storage: storageOption = "local",
+    columns = [],
+    sorts = [],
+    onSort = null,
+}: Partial<ColumnsOptions> = {}) {
+    // Storage
+    const storageKey = createKey(key, "-");
+    const { string, set, remove } = useStorage(
+        resolveStorage(storageOption),
+        storageKey ? `${storageKey} lister` : ""
+    );
+    const onSortRef = useStableCallback(onSort);
+
+    // Storage changes re-render through useStorage, so no subscription needed
+    const persisted = useSyncExternalStore(
+        noSubscribe,
+        () => (storageKey ? string("columns") : undefined),
+        () => undefined
+    );
+    const state = useMemo(() => parseColumnState(persisted), [persisted]);
+
+    const items = useMemo(
+        () => resolveColumns(columns, state, sorts),
+        [columns, state, sorts]
+    );
+
+    const visibleColumns = useMemo(
+        () => items.filter((c) => c.visible),
+        [items]
+    );
+
+    // Helpers
+    const persist = useCallback(
+        (next: Partial<ColumnState>) => {
+            if (!storageKey) return false;
+            return set("columns", JSON.stringify({ ...state, ...next }));
+        },
+        [set, storageKey, state]
+    );
+
+    // APIs
+    const setVisible = useCallback(
+        (id: string, visible: boolean) =>
+            persist({ visibility: { ...state.visibility, [id]: visible } }),
+        [persist, state]
+    );
+
+    const toggleVisible = useCallback(
+        (id: string) => {
+            const column = items.find((c) => c.id === id);
+            return column ? setVisible(id, !column.visible) : false;
+        },
+        [items, setVisible]
+    );
+
+    const setOrder = useCallback(
+        (ids: string[]) => persist({ order: ids }),
+        [persist]
+    );
+
+    const move = useCallback(
+        (id: string, index: number) =>
+            setOrder(
+                moveColumn(
+                    items.map((c) => c.id),
+                    id,
+                    index
+                )
+            ),
+        [items, setOrder]
+    );
+
+    const setWidth = useCallback(
+        (id: string, width: number) =>
+            width > 0 && persist({ widths: { ...state.widths, [id]: width } }),
+        [persist, state]
+    );
+
+    const sortBy = useCallback(
+        (id: string, multi = false) => {
+            const column = items.find((c) => c.id === id);
+            if (!column?.sortable) return;
+
+            onSortRef(toggleSort(sorts, column.field ?? column.id, multi));
+        },
+        [items, sorts, onSortRef]
+    );
+
+    const reset = useCallback(() => remove("columns"), [remove]);
+
+    return {
+        columns: items,
+        visibleColumns,
+        setVisible,
+        toggleVisible,
+        move,
+        setOrder,
+        setWidth,
+        sortBy,
+        reset,
+    } as const;
+}
@@ -1,31 +1,92 @@
-import { useCallback, useMemo, useRef, useState } from "react";
-import { useStableCallback, useStorage } from "../hooks";
+import {
+    useCallback,
+    useEffect,
+    useMemo,
+    useRef,
+    useState,
+    useSyncExternalStore,
+} from "react";
+import { useLatest, useStableCallback, useStorage } from "../hooks";
 import { sign, validate } from "../signer";
-import { createKey, isObject } from "../utils";
-import type { ListerData, ListerOptions, ListerParams } from "./types";
+import { createKey, isArray, isObject, isString } from "../utils";
+import type {
+    ExportOptions,
+    Fetcher,
+    FilterSchema,
+    InferFilters,
+    ListerData,
+    ListerInput,
+    ListerOptions,
+    ListerParams,
+    ListerResult,
+    ListerSelection,
+    ListerStatus,
+    ListerView,
+    RowId,
+    UrlOptions,
+} from "./types";
 import {
     arraySafe,
+    coerceFilters,
+    createBrowserHistory,
+    createPoller,
+    createQueue,
     decode,
     decodeSorts,
+    defaultRowId,
+    emptyResult,
+    emptySelection,
     encode,
     encodeSorts,
+    encodeView,
+    exportRecords as exportCsv,
+    filterSignature,
+    insertRecordAt,
+    isListerStorageEvent,
+    isRowSelected,
+    noSubscribe,
+    normalizeResponse,
     objectSafe,
+    parseResult,
+    parseViewLink,
+    parseViews,
     positiveSafe,
+    queryRecords,
+    readNamespace,
+    removeRecordAt,
     removeZero,
+    replaceRecordAt,
+    resolveHistoryMode,
+    resolveResponseAdapter,
+    resolveStorage,
+    selectAll,
+    selectionCount,
+    selectRows,
     stringSafe,
+    upsertView,
+    writeNamespace,
 } from "./utils";
 
+const DEFAULT_POLICY: UrlOptions["policy"] = { page: "push" };
+
+/** Preferences applied from other tabs when `sync` is enabled. */
+const SYNCED_KEYS = ["limit", "sorts"];
+
 /**
  * React hook to manage paginated, sortable, and filterable list state.
  *
  * This hook provides a fully reactive interface for managing list data,
  * including pagination (`page`, `limit`), searching (`search`), sorting
  * (`sorts`), filtering (`filters`), and API response handling (`meta`,
- * `records`). It also persists certain state values to localStorage if
- * configured.
+ * `records`). It also persists certain state values to storage if configured.
+ *
+ * The hook serializes `apply` and `parseResponse` calls in a queue to prevent
+ * race conditions during concurrent updates.
  *
- * The hook ensures safe async updates with a lock to prevent race conditions
- * during concurrent `apply` or `parseResponse` calls.
+ * When a `fetcher` is provided the hook owns the request lifecycle: it requests
+ * data on mount and whenever parameters change, aborts superseded requests, and
+ * caches responses by parameters signature. Revisiting a cached signature
+ * renders the cached data instantly while revalidating in the background.
  *
  * @example
  *     const { page, limit, search, filters, records, apply, parseResponse } =
@@ -44,53 +105,201 @@ import {
  * @template TRecord - Type of individual records in the list.
  * @template TMeta - Type of metadata object for the list.
  * @param options - Optional configuration object:
- * @param options.key - Key prefix for localStorage persistence.
+ * @param options.key - Key prefix for storage persistence.
+ * @param options.storage - Persistence backend: `local` (default), `session`,
+ *   `memory` or any `Storage` compatible object. Browser storages are skipped
+ *   outside of the browser.
+ * @param options.ssr - Renders with `defaults` only and hydrates persisted
+ *   values, the default view and URL state after mount, so server and client
+ *   markup match. Hydration notifies `callback` and requests data.
  * @param options.defaults - Default values for `page`, `limit`, `search`,
  *   `sorts`, and `filters`.
  * @param options.callback - Function called whenever filters are applied;
- *   receives current params and encoded string.
- * @param options.rememberLimit - Whether to persist `limit` to localStorage.
- * @param options.rememberSorts - Whether to persist `sorts` to localStorage.
+ *   receives current params, encoded string and params signature.
+ * @param options.rememberLimit - Whether to persist `limit` to storage.
+ * @param options.rememberSorts - Whether to persist `sorts` to storage.
+ * @param options.fetcher - Optional function requesting data for the current
+ *   params; receives an abort signal.
+ * @param options.cacheSize - Maximum number of responses cached per params
+ *   signature when using `fetcher`. Defaults to 10.
+ * @param options.url - Keeps the query string in sync with the lister state in
+ *   both directions. Accepts `true` or an object with a history `adapter`
+ *   (browser History API by default), a per-field push / replace `policy` (only
+ *   `page` pushes by default) and a key `namespace` allowing several listers to
+ *   share one URL.
+ * @param options.schema - Optional filter declarations. Declared filters are
+ *   coerced to their type and shape, unknown filters are dropped, and invalid
+ *   values fall back to the declared default. Also types `filters`, `apply` and
+ *   `filter`.
+ * @param options.pagination - Pagination strategy: `offset` (default) replaces
+ *   records per page, `infinite` and `cursor` accumulate records across chunks
+ *   and restart whenever `limit`, `search`, `sorts` or `filters` change.
+ * @param options.getRowId - Resolves the unique id of a record used by the
+ *   selection model. Defaults to the `id` property.
+ * @param options.ignoreStale - Whether `parseResponse` ignores responses whose
+ *   signature (received by `callback`) no longer matches the current params.
+ *   Defaults to `false`.
+ * @param options.data - In-memory records. When set, search, filters, sorts and
+ *   pagination run locally and produce the same `total`, `pages`, `from`, `to`
+ *   and `records` as a backend. Keep the array reference stable; records are
+ *   queried again whenever it changes.
+ * @param options.searchFields - Fields searched in local mode as (dot
+ *   separated) names or accessors; all primitive fields when empty. Search is
+ *   case-insensitive and normalizes Persian/Arabic characters.
+ * @param options.sync - Applies `limit` and `sorts` persisted by other tabs
+ *   with the same `key` as soon as they change there; the initial state (URL,
+ *   default view or defaults) is kept until then. Saved views and the default
+ *   view always stay in sync. Requires `local` storage; disabled by default.
+ * @param options.refreshInterval - Polls the current params every given
+ *   milliseconds through `refresh()`, counted from the end of the previous
+ *   request; ticks are skipped while another request is in flight. Polling
+ *   pauses while the document is hidden and catches up once visible again.
+ *   Disabled by default.
+ * @param options.responseAdapter - Response shape: `default`, `laravel`,
+ *   `jsonapi`, `spring`, `graphql` or a custom adapter function. Missing
+ *   `pages`, `from` and `to` are computed from `total`.
  * @returns An object containing:
  *
  *   - **page, limit, search, sort, sorts, filters, isFiltered**: reactive filter
  *       and pagination state.
  *   - **total, pages, from, to, meta, records**: reactive data and aggregation info
  *       from API responses.
+ *   - **isLoading, isFetching, error**: request lifecycle state when using
+ *       `fetcher`.
+ *   - **lastUpdatedAt**: time the records were last loaded, e.g. for
+ *       `ago(lastUpdatedAt)`; `null` until the first load.
+ *   - **cursor, nextCursor, hasMore**: chunk navigation state.
  *   - **filter(name: string)**: helper to get a single filter value.
  *   - **apply(filters: Partial<ListerParams>)**: applies new filter values and
- *       updates state & storage.
+ *       updates state & storage. Empty `search`, `sorts` or `filters` clear the
+ *       current value (breaking: they used to be ignored). Calls queued while
+ *       another update runs are merged (last write wins) and applied once;
+ *       resolves with the applied params.
  *   - **parseUrl(encoded: string)**: decodes a URL-encoded filter string and
- *       applies it.
- *   - **parseResponse(response: unknown)**: parses an API response and updates
- *       state accordingly.
+ *       applies it; params missing from the string keep their current value.
+ *   - **parseResponse(response: unknown, signature?: string)**: parses an API
+ *       response and updates state accordingly once queued updates are done;
+ *       resolves with the resulting params.
+ *   - **refresh()**: reloads the current params, bypassing the unchanged params
+ *       check: notifies `callback` again and requests data from `fetcher` or
+ *       local `data`. Resolves with the current params once loaded.
+ *   - **loadMore()**: requests the next chunk (next page in `offset` mode).
+ *   - **updateRecord(id, patch, request?), removeRecord(id, request?),
+ *       insertRecord(record, request?, position?)**: optimistic record
+ *       mutations. Changes apply locally at once, adjust `total`, `from` and
+ *       `to`, and are rolled back when `request` rejects.
+ *   - **exportRecords(options)**: exports every page of the current params as CSV,
+ *       using the lister `fetcher` (or local `data`) unless another fetcher is
+ *       given.
+ *   - **views, defaultView**: saved views persisted per `key`, empty while
+ *       hydrating server-rendered markup; the default view is applied on mount
+ *       unless the URL carries lister state.
+ *   - **saveView(name), applyView(name), deleteView(name), setDefaultView(name)**:
+ *       manage views storing `limit`, `search`, `sorts` and `filters`.
+ *   - **exportView(name), importView(name, link)**: share views as encoded query
+ *       strings.
+ *   - **selected, selectedCount, isAllMatching, isPageSelected**: row selection
+ *       state. Selected ids survive page changes; an "all matching" selection
+ *       is kept as an exclusion set bound to the current search and filters,
+ *       and is cleared once they change.
+ *   - **isSelected(record), toggle(record, checked?), selectPage(checked?),
+ *       selectAllMatching(), clearSelection()**: selection helpers.
  */
-export function useLister<TRecord = unknown, TMeta = unknown>({
+export function useLister<
+    TRecord = unknown,
+    TMeta = unknown,
+    TSchema extends FilterSchema = FilterSchema,
+>({
     key = [],
+    storage: storageOption = "local",
+    ssr = false,
     defaults = {},
     callback = null,
     rememberLimit = true,
     rememberSorts = true,
-}: Partial<ListerOptions> = {}) {
+    fetcher = null,
+    cacheSize = 10,
+    pagination = "offset",
+    url = false,
+    schema = null,
+    responseAdapter = "default",
+    getRowId = defaultRowId,
+    ignoreStale = false,
+    data = null,
+    searchFields = [],
+    refreshInterval = 0,
+    sync = false,
+}: Partial<ListerOptions<TSchema, TRecord>> = {}) {
     // Storage
     const storageKey = createKey(key, "-");
     const storage = useStorage(
-        localStorage,
+        resolveStorage(storageOption),
         storageKey ? `${storageKey} lister` : ""
     );
 
+    // URL
+    const urlOptions = url === true ? {} : url || null;
+    const customAdapter = urlOptions?.adapter;
+    const namespace = urlOptions?.namespace?.trim() ?? "";
+    const policyRef = useLatest(urlOptions?.policy ?? DEFAULT_POLICY);
+    const hasUrl = !!urlOptions;
+    const urlAdapter = useMemo(
+        () => (hasUrl ? (customAdapter ?? createBrowserHistory()) : null),
+        [hasUrl, customAdapter]
+    );
+
     // Stats and Refs
-    const [stats, setStats] = useState<ListerData<TRecord, TMeta>>(() =>
-        createListerInitial(
+    const readInitial = () => {
+        const init = createListerInitial<TRecord, TMeta>(
             storage,
             storageKey,
             defaults,
             rememberLimit,
             rememberSorts
-        )
+        );
+
+        // URL state takes precedence over the default view
+        const query = urlAdapter
+            ? readNamespace(urlAdapter.read(), namespace)
+            : "";
+        const preset = storageKey
+            ? (parseViews(storage.string("views")).find(
+                  (v) => v.name === storage.string("view")
+              )?.query ?? "")
+            : "";
+
+        return {
+            ...init,
+            ...sanitize(decode(query || preset, schema), schema),
+        };
+    };
+    const [stats, setStats] = useState<ListerData<TRecord, TMeta>>(() =>
+        // Persisted state is hydrated after mount when rendering on the server
+        ssr
+            ? createListerInitial(storage, "", defaults, false, false)
+            : readInitial()
     );
+    const [status, setStatus] = useState<ListerStatus>(() => ({
+        isLoading: fetcher !== null,
+        isFetching: false,
+        error: null,
+        lastUpdatedAt: null,
+    }));
+    const [selection, setSelection] = useState<ListerSelection>(emptySelection);
     const callbackRef = useStableCallback(callback);
-    const lockRef = useRef<boolean>(false);
+    const defaultsRef = useLatest(defaults);
+    const storageRef = useLatest(storage);
+    const schemaRef = useLatest<FilterSchema | null>(schema);
+    const fetcherRef = useStableCallback(fetcher);
+    const adapterRef = useLatest(responseAdapter);
+    const rowIdRef = useLatest(getRowId);
+    const dataRef = useLatest(data);
+    const searchFieldsRef = useLatest(searchFields);
+    const hasFetcher = fetcher !== null;
+    const queue = useMemo(() => createQueue(), []);
+    const abortRef = useRef<AbortController | null>(null);
+    const appendFromRef = useRef(0);
+    const cacheRef = useRef(new Map<string, ListerResult<TRecord, TMeta>>());
     const statsRef = useRef<ListerData<TRecord, TMeta>>(stats);
 
     // Helpers
@@ -138,203 +347,812 @@ export function useLister<TRecord = unknown, TMeta = unknown>({
         [storageKey, rememberLimit, rememberSorts, storage]
     );
 
+    const persistUrl = useCallback(
+        (prev: ListerParams, next: ListerParams) => {
+            if (!urlAdapter) return;
+
+            urlAdapter.write(
+                writeNamespace(urlAdapter.read(), encode(next), namespace),
+                resolveHistoryMode(prev, next, policyRef())
+            );
+        },
+        [urlAdapter, namespace, policyRef]
+    );
+
+    const mergeResult = useCallback(
+        (
+            prev: ListerData<TRecord, TMeta>,
+            result: ListerResult<TRecord, TMeta>
+        ): ListerData<TRecord, TMeta> => {
+            const offset = appendFromRef.current;
+            if (pagination === "offset" || offset <= 0) {
+                return { ...prev, ...result };
+            }
+
+            // Accumulate records loaded before the current chunk
+            return {
+                ...prev,
+                ...result,
+                from: prev.from || result.from,
+                records: prev.records.slice(0, offset).concat(result.records),
+            };
+        },
+        [pagination]
+    );
+
+    const persistCache = useCallback(
+        (signature: string, result: ListerResult<TRecord, TMeta>) => {
+            const cache = cacheRef.current;
+            cache.delete(signature);
+            cache.set(signature, result);
+
+            while (cache.size > Math.max(cacheSize, 0)) {
+                cache.delete(cache.keys().next().value!);
+            }
+        },
+        [cacheSize]
+    );
+
+    const load = useCallback(
+        async (params: ListerParams, signature: string) => {
+            // Query local records
+            const records = dataRef();
+            if (records) {
+                const result = queryRecords<TRecord, TMeta>(
+                    records,
+                    params,
+                    searchFieldsRef()
+                );
+                persistStats((prev) => mergeResult(prev, result));
+                setStatus((prev) => ({ ...prev, lastUpdatedAt: new Date() }));
+                return;
+            }
+
+            if (!hasFetcher) return;
+
+            // Abort previous request
+            abortRef.current?.abort();
+            const ctl = new AbortController();
+            abortRef.current = ctl;
+
+            // Serve cached result while revalidating
+            const cached = cacheRef.current.get(signature);
+            if (cached) {
+                persistStats((prev) => mergeResult(prev, cached));
+            }
+            setStatus((prev) => ({
+                ...prev,
+                isLoading: !cached,
+                isFetching: true,
+                error: null,
+            }));
+
+            try {
+                const response = await fetcherRef(params, {
+                    signal: ctl.signal,
+                });
+                if (ctl.signal.aborted) return;
+
+                const result = parseResult<TRecord, TMeta>(
+                    response,
+                    resolveResponseAdapter(adapterRef()),
+                    params
+                );
+                persistCache(signature, result);
+                if (statsRef.current.sign === signature) {
+                    persistStats((prev) => mergeResult(prev, result));
+                }
+                setStatus({
+                    isLoading: false,
+                    isFetching: false,
+                    error: null,
+                    lastUpdatedAt: new Date(),
+                });
+            } catch (e) {
+                if (ctl.signal.aborted) return;
+                setStatus((prev) => ({
+                    ...prev,
+                    isLoading: false,
+                    isFetching: false,
+                    error: e,
+                }));
+            } finally {
+                if (abortRef.current === ctl) abortRef.current = null;
+            }
+        },
+        [
+            hasFetcher,
+            fetcherRef,
+            adapterRef,
+            dataRef,
+            searchFieldsRef,
+            persistStats,
+            persistCache,
+            mergeResult,
+        ]
+    );
+
     // APIs
-    const reset = useCallback(async () => {
-        const init = createListerInitial(
+    const reset = useCallback(
+        () =>
+            queue.run(async () => {
+                const init = createListerInitial(
+                    storage,
+                    storageKey,
+                    defaults,
+                    rememberLimit,
+                    rememberSorts
+                );
+
+                // Sign
+                const next = toParams(init);
+
+                // Update stats
+                const previous = toParams(statsRef.current);
+                const signature = await sign(next);
+                appendFromRef.current = 0;
+                persistStats((prev) => ({
+                    ...prev,
+                    ...next,
+                    ...emptyResult<TRecord, TMeta>(),
+                    sign: signature,
+                }));
+                persistStore(next);
+                persistUrl(previous, next);
+
+                // Notify
+                callbackRef(next, encode(next), signature);
+                void load(next, signature);
+                return next;
+            }),
+        [
+            queue,
+            callbackRef,
+            persistStats,
+            persistStore,
+            persistUrl,
+            load,
             storage,
             storageKey,
             defaults,
             rememberLimit,
-            rememberSorts
-        );
+            rememberSorts,
+        ]
+    );
 
-        // Sign
-        const next = {
-            page: init.page,
-            limit: init.limit,
-            search: init.search,
-            sorts: init.sorts,
-            filters: { ...init.filters },
-        };
+    const commit = useCallback(
+        async (next: ListerParams, writeUrl: boolean) => {
+            const current = statsRef.current;
+            const isSame = await validate(next, current.sign);
+            if (isSame) return next;
+
+            // Restart accumulation when the query changes
+            const isRestart =
+                pagination !== "offset" && queryKey(next) !== queryKey(current);
+            if (isRestart) {
+                next.page = 1;
+                next.cursor = "";
+            }
+            appendFromRef.current =
+                pagination !== "offset" &&
+                !isRestart &&
+                (next.page > 1 || !!next.cursor)
+                    ? current.records.length
+                    : 0;
 
-        // Update stats
-        const signature = await sign(next);
-        persistStats((prev) => {
-            const merged = {
+            // Update stats
+            const signature = await sign(next);
+            persistStats((prev) => ({
                 ...prev,
                 ...next,
-                total: 0,
-                pages: 0,
-                from: 0,
-                to: 0,
-                meta: {} as TMeta,
-                records: [] as unknown[] as TRecord[],
+                ...(isRestart ? { records: [] as TRecord[] } : {}),
                 sign: signature,
-            };
-            statsRef.current = merged;
-            return merged;
-        });
-        persistStore(next);
+            }));
+            persistStore(next);
+            if (writeUrl) persistUrl(toParams(current), next);
 
-        // Notify
-        callbackRef(next, encode(next));
-    }, [
-        callbackRef,
-        persistStats,
-        persistStore,
-        storage,
-        storageKey,
-        defaults,
-        rememberLimit,
-        rememberSorts,
-    ]);
+            // Notify
+            callbackRef(next, encode(next), signature);
+            void load(next, signature);
+            return next;
+        },
+        [callbackRef, persistStats, persistStore, persistUrl, load, pagination]
+    );
 
     const apply = useCallback(
-        async (filters: Partial<ListerParams>) => {
-            if (lockRef.current) return;
+        (filters: ListerInput<TSchema>) =>
+            queue.coalesce(
+                "apply",
+                {
+                    ...pickCleared(filters as Partial<ListerParams>),
+                    ...sanitize(filters as Partial<ListerParams>, schemaRef()),
+                },
+                (prev, next) => ({ ...prev, ...next }),
+                (input) =>
+                    commit({ ...toParams(statsRef.current), ...input }, true)
+            ),
+        [queue, commit, schemaRef]
+    );
+
+    const parseUrl = useCallback(
+        (encoded: string) => {
+            // Keys missing from the query keep their current value
+            const { search, ...params } = decode(encoded, schemaRef());
+            void apply(
+                removeZero({
+                    ...params,
+                    search: search.trim() ? search : undefined,
+                }) as ListerInput<TSchema>
+            );
+        },
+        [apply, schemaRef]
+    );
+
+    const parseResponse = useCallback(
+        (response: unknown, signature?: string) =>
+            queue.run(async () => {
+                // Ignore responses of outdated params
+                if (
+                    ignoreStale &&
+                    signature !== undefined &&
+                    signature !== statsRef.current.sign
+                ) {
+                    return toParams(statsRef.current);
+                }
+
+                // Reset on invalid response
+                const envelope = resolveResponseAdapter(adapterRef())(response);
+                if (!envelope) {
+                    persistStats((prev) => ({
+                        ...prev,
+                        ...emptyResult<TRecord, TMeta>(),
+                    }));
+                    return toParams(statsRef.current);
+                }
 
-            lockRef.current = true;
-            try {
                 // Parse Filters
                 const next = {
-                    page: statsRef.current.page,
-                    limit: statsRef.current.limit,
-                    search: statsRef.current.search,
-                    sorts: statsRef.current.sorts,
-                    filters: { ...statsRef.current.filters },
+                    ...toParams(statsRef.current),
                     ...removeZero({
-                        page: positiveSafe(filters.page, undefined),
-                        limit: positiveSafe(filters.limit, undefined),
-                        search: stringSafe(filters.search, undefined),
-                        sorts: arraySafe(filters.sorts, undefined),
-                        filters: objectSafe(filters.filters, undefined),
+                        page: positiveSafe(envelope.page, undefined),
+                        limit: positiveSafe(envelope.limit, undefined),
+                        search: stringSafe(envelope.search, undefined),
+                        sorts: arraySafe(envelope.sorts, undefined),
                     }),
                 };
+                const result = normalizeResponse<TRecord, TMeta>(
+                    envelope,
+                    next
+                );
 
+                // Update data only when parameters are unchanged
                 const isSame = await validate(next, statsRef.current.sign);
-                if (isSame) return;
+                if (isSame) {
+                    persistStats((prev) => mergeResult(prev, result));
+                    setStatus((prev) => ({
+                        ...prev,
+                        lastUpdatedAt: new Date(),
+                    }));
+                    return next;
+                }
 
                 // Update stats
-                const signature = await sign(next);
-                persistStats((prev) => {
-                    const merged = { ...prev, ...next, sign: signature };
-                    statsRef.current = merged;
-                    return merged;
-                });
+                const previous = toParams(statsRef.current);
+                const nextSign = await sign(next);
+                persistStats((prev) => ({
+                    ...mergeResult(prev, result),
+                    ...next,
+                    sign: nextSign,
+                }));
+                setStatus((prev) => ({ ...prev, lastUpdatedAt: new Date() }));
                 persistStore(next);
+                persistUrl(previous, next);
 
                 // Notify
-                callbackRef(next, encode(next));
-            } finally {
-                lockRef.current = false;
+                callbackRef(next, encode(next), nextSign);
+                return next;
+            }),
+        [
+            queue,
+            ignoreStale,
+            callbackRef,
+            adapterRef,
+            persistStats,
+            persistStore,
+            persistUrl,
+            mergeResult,
+        ]
+    );
+
+    const refresh = useCallback(async () => {
+        // Wait for the request outside of the queue, so updates are not blocked
+        const { next, loading } = await queue.run(async () => {
+            const next = toParams(statsRef.current);
+            const signature = await sign(next);
+            persistStats((prev) => ({ ...prev, sign: signature }));
+
+            // Notify even though params are unchanged
+            callbackRef(next, encode(next), signature);
+            return { next, loading: load(next, signature) };
+        });
+
+        await loading;
+        return next;
+    }, [queue, callbackRef, persistStats, load]);
+
+    const loadMore = useCallback(async () => {
+        const current = statsRef.current;
+        if (pagination !== "offset" && abortRef.current) return;
+
+        if (pagination === "cursor") {
+            if (current.nextCursor) await apply({ cursor: current.nextCursor });
+        } else if (current.page < current.pages) {
+            await apply({ page: current.page + 1 });
+        }
+    }, [apply, pagination]);
+
+    // Views, read behind hydration so server and client markup match
+    const storedViews = useSyncExternalStore(
+        noSubscribe,
+        () => (storageKey ? storage.string("views") : undefined),
+        () => undefined
+    );
+    const storedView = useSyncExternalStore(
+        noSubscribe,
+        () => (storageKey ? storage.string("view") : undefined),
+        () => undefined
+    );
+    const views = useMemo(() => parseViews(storedViews), [storedViews]);
+    const defaultView = useMemo(
+        () =>
+            views.some((v) => v.name === storedView) ? (storedView ?? "") : "",
+        [views, storedView]
+    );
+
+    const persistViews = useCallback(
+        (next: ListerView[]) =>
+            next.length > 0
+                ? storage.set("views", JSON.stringify(next))
+                : storage.remove("views"),
+        [storage]
+    );
+
+    const saveView = useCallback(
+        (name: string) => {
+            name = name.trim();
+            if (!storageKey || !name) return false;
+
+            const query = encodeView(toParams(statsRef.current));
+            return persistViews(upsertView(views, { name, query }));
+        },
+        [storageKey, views, persistViews]
+    );
+
+    const importView = useCallback(
+        (name: string, link: string) => {
+            name = name.trim();
+            if (!storageKey || !name) return false;
+
+            const query = parseViewLink(link, (q) => decode(q, schemaRef()));
+            return persistViews(upsertView(views, { name, query }));
+        },
+        [storageKey, views, persistViews, schemaRef]
+    );
+
+    const exportView = useCallback(
+        (name: string) => views.find((v) => v.name === name)?.query ?? "",
+        [views]
+    );
+
+    const deleteView = useCallback(
+        (name: string) => {
+            if (defaultView === name) storage.remove("view");
+            return persistViews(views.filter((v) => v.name !== name));
+        },
+        [storage, views, defaultView, persistViews]
+    );
+
+    const setDefaultView = useCallback(
+        (name: string) =>
+            views.some((v) => v.name === name)
+                ? storage.set("view", name)
+                : storage.remove("view"),
+        [storage, views]
+    );
+
+    const applyView = useCallback(
+        (name: string) => {
+            const view = views.find((v) => v.name === name);
+
+            return queue.run(async () => {
+                if (!view) return toParams(statsRef.current);
+
+                const init = createListerInitial(
+                    storage,
+                    storageKey,
+                    defaultsRef(),
+                    rememberLimit,
+                    rememberSorts
+                );
+
+                return commit(
+                    {
+                        ...toParams(init),
+                        ...sanitize(
+                            decode(view.query, schemaRef()),
+                            schemaRef()
+                        ),
+                    },
+                    true
+                );
+            });
+        },
+        [
+            queue,
+            views,
+            storage,
+            storageKey,
+            defaultsRef,
+            schemaRef,
+            rememberLimit,
+            rememberSorts,
+            commit,
+        ]
+    );
+
+    // Optimistic mutations
+    const indexOf = useCallback(
+        (records: TRecord[], id: RowId) =>
+            records.findIndex((r) => rowIdRef()(r) === id),
+        [rowIdRef]
+    );
+
+    const updateRecord = useCallback(
+        async (
+            id: RowId,
+            patch: Partial<TRecord> | ((record: TRecord) => TRecord),
+            request?: Promise<unknown>
+        ) => {
+            const records = statsRef.current.records;
+            const previous = records[indexOf(records, id)];
+            if (previous === undefined) {
+                await request;
+                return;
+            }
+
+            const next =
+                typeof patch === "function"
+                    ? patch(previous)
+                    : { ...previous, ...patch };
+
+            cacheRef.current.clear();
+            persistStats((prev) =>
+                replaceRecordAt(prev, indexOf(prev.records, id), next)
+            );
+
+            try {
+                await request;
+            } catch (e) {
+                persistStats((prev) =>
+                    replaceRecordAt(prev, indexOf(prev.records, id), previous)
+                );
+                throw e;
             }
         },
-        [callbackRef, persistStats, persistStore]
+        [indexOf, persistStats]
     );
 
-    const parseUrl = useCallback(
-        (encoded: string) => {
-            void apply(decode(encoded));
+    const removeRecord = useCallback(
+        async (id: RowId, request?: Promise<unknown>) => {
+            const records = statsRef.current.records;
+            const index = indexOf(records, id);
+            const previous = records[index];
+            if (previous === undefined) {
+                await request;
+                return;
+            }
+
+            cacheRef.current.clear();
+            if (index < appendFromRef.current) appendFromRef.current--;
+            persistStats((prev) =>
+                removeRecordAt(prev, indexOf(prev.records, id))
+            );
+
+            try {
+                await request;
+            } catch (e) {
+                if (index < appendFromRef.current) appendFromRef.current++;
+                persistStats((prev) =>
+                    indexOf(prev.records, id) < 0
+                        ? insertRecordAt(prev, index, previous)
+                        : prev
+                );
+                throw e;
+            }
         },
-        [apply]
+        [indexOf, persistStats]
     );
 
-    const parseResponse = useCallback(
-        async (response: unknown) => {
-            if (lockRef.current) return;
+    const insertRecord = useCallback(
+        async (
+            record: TRecord,
+            request?: Promise<unknown>,
+            position: "start" | "end" = "start"
+        ) => {
+            const id = rowIdRef()(record);
+
+            cacheRef.current.clear();
+            if (position === "start" && appendFromRef.current > 0) {
+                appendFromRef.current++;
+            }
+            persistStats((prev) =>
+                insertRecordAt(
+                    prev,
+                    position === "start" ? 0 : prev.records.length,
+                    record
+                )
+            );
 
-            lockRef.current = true;
             try {
-                // Reset on invalid response
-                if (!isObject<Record<string, unknown>>(response)) {
-                    persistStats((prev) => {
-                        const merged = {
-                            ...prev,
-                            total: 0,
-                            pages: 0,
-                            from: 0,
-                            to: 0,
-                            meta: {} as TMeta,
-                            records: [] as unknown as TRecord[],
-                        };
-                        statsRef.current = merged;
-                        return merged;
-                    });
-                    return;
+                await request;
+            } catch (e) {
+                if (position === "start" && appendFromRef.current > 0) {
+                    appendFromRef.current--;
                 }
+                persistStats((prev) =>
+                    removeRecordAt(prev, indexOf(prev.records, id))
+                );
+                throw e;
+            }
+        },
+        [rowIdRef, indexOf, persistStats]
+    );
 
-                // Parse Filters
+    // Restore state on external navigation
+    useEffect(() => {
+        if (!urlAdapter) return;
+
+        return urlAdapter.subscribe(() => {
+            void queue.run(() => {
+                const init = createListerInitial(
+                    storage,
+                    storageKey,
+                    defaultsRef(),
+                    rememberLimit,
+                    rememberSorts
+                );
+
+                return commit(
+                    {
+                        ...toParams(init),
+                        ...sanitize(
+                            decode(
+                                readNamespace(urlAdapter.read(), namespace),
+                                schemaRef()
+                            ),
+                            schemaRef()
+                        ),
+                    },
+                    false
+                );
+            });
+        });
+    }, [
+        queue,
+        urlAdapter,
+        namespace,
+        storage,
+        storageKey,
+        defaultsRef,
+        schemaRef,
+        rememberLimit,
+        rememberSorts,
+        commit,
+    ]);
+
+    // Initial request, on mount and when a fetcher is set or removed; reads the
+    // latest state without re-running on every render
+    const requestInitial = useStableCallback(() => {
+        if (ssr) {
+            void queue.run(() => commit(toParams(readInitial()), false));
+            return () => abortRef.current?.abort();
+        }
+
+        if (!hasFetcher) return;
+
+        const next = toParams(statsRef.current);
+
+        void sign(next).then((signature) => {
+            if (statsRef.current.sign) return;
+
+            persistStats((prev) => ({ ...prev, sign: signature }));
+            void load(next, signature);
+        });
+
+        return () => abortRef.current?.abort();
+    });
+    useEffect(() => requestInitial(), [hasFetcher, requestInitial]);
+
+    // Apply preferences persisted by other tabs
+    useEffect(() => {
+        if (!sync || !storageKey || typeof window === "undefined") return;
+
+        const area = resolveStorage(storageOption);
+        const handler = (e: StorageEvent) => {
+            if (!isListerStorageEvent(e, area, storageKey, SYNCED_KEYS)) {
+                return;
+            }
+
+            void queue.run(() => {
+                const current = toParams(statsRef.current);
+                const init = createListerInitial(
+                    storageRef(),
+                    storageKey,
+                    defaultsRef(),
+                    rememberLimit,
+                    rememberSorts
+                );
                 const next = {
-                    page: statsRef.current.page,
-                    limit: statsRef.current.limit,
-                    search: statsRef.current.search,
-                    sorts: statsRef.current.sorts,
-                    filters: { ...statsRef.current.filters },
-                    ...removeZero({
-                        page: positiveSafe(response.page, undefined),
-                        limit: positiveSafe(response.limit, undefined),
-                        search: stringSafe(response.search, undefined),
-                        sorts: arraySafe(response.sorts, undefined),
-                    }),
+                    ...current,
+                    limit: rememberLimit ? init.limit : current.limit,
+                    sorts: rememberSorts ? init.sorts : current.sorts,
                 };
 
-                const isSame = await validate(next, statsRef.current.sign);
-                if (isSame) return;
-
-                // Parse Metadata
-                const meta: Record<string, unknown> = {};
-                for (const [key, value] of Object.entries(response)) {
-                    if (
-                        ![
-                            "page",
-                            "limit",
-                            "search",
-                            "sorts",
-                            "total",
-                            "pages",
-                            "from",
-                            "to",
-                            "data",
-                        ].includes(key)
-                    ) {
-                        meta[key] = value;
-                    }
+                if (queryKey(next) === queryKey(current)) {
+                    return Promise.resolve(current);
                 }
+                return commit({ ...next, page: 1, cursor: "" }, true);
+            });
+        };
 
-                // Update stats
-                const signature = await sign(next);
-                persistStats((prev) => {
-                    const merged = {
-                        ...prev,
-                        ...next,
-                        total: positiveSafe(response.total, 0)!,
-                        pages: positiveSafe(response.pages, 0)!,
-                        from: positiveSafe(response.from, 0)!,
-                        to: positiveSafe(response.to, 0)!,
-                        meta: meta as TMeta,
-                        records: arraySafe<TRecord>(
-                            response.data,
-                            [] as TRecord[]
-                        )!,
-                        sign: signature,
-                    };
-                    statsRef.current = merged;
-                    return merged;
-                });
-                persistStore(next);
+        window.addEventListener("storage", handler);
+        return () => window.removeEventListener("storage", handler);
+    }, [
+        sync,
+        storageKey,
+        storageOption,
+        queue,
+        storageRef,
+        defaultsRef,
+        rememberLimit,
+        rememberSorts,
+        commit,
+    ]);
 
-                // Notify
-                callbackRef(next, encode(next));
-            } finally {
-                lockRef.current = false;
+    // Polling
+    useEffect(() => {
+        if (refreshInterval <= 0 || typeof document === "undefined") return;
+
+        // Skip ticks while another request is in flight
+        const poller = createPoller(
+            () => (abortRef.current ? Promise.resolve() : refresh()),
+            refreshInterval,
+            () => document.visibilityState === "hidden"
+        );
+
+        poller.schedule();
+        document.addEventListener("visibilitychange", poller.schedule);
+        return () => {
+            poller.stop();
+            document.removeEventListener("visibilitychange", poller.schedule);
+        };
+    }, [refreshInterval, refresh]);
+
+    // Selection
+    const isSelected = useCallback(
+        (record: TRecord) => isRowSelected(selection, rowIdRef()(record)),
+        [selection, rowIdRef]
+    );
+
+    const toggle = useCallback(
+        (record: TRecord, checked?: boolean) => {
+            setSelection((prev) =>
+                selectRows(prev, [rowIdRef()(record)], checked)
+            );
+        },
+        [rowIdRef]
+    );
+
+    const selectPage = useCallback(
+        (checked = true) => {
+            const ids = statsRef.current.records.map((r) => rowIdRef()(r));
+            setSelection((prev) => selectRows(prev, ids, checked));
+        },
+        [rowIdRef]
+    );
+
+    const selectAllMatching = useCallback(() => {
+        setSelection(selectAll(filterSignature(statsRef.current)));
+    }, []);
+
+    const clearSelection = useCallback(() => {
+        setSelection(emptySelection());
+    }, []);
+
+    // Invalidate "all matching" selection once search or filters change
+    useEffect(() => {
+        setSelection((prev) =>
+            prev.mode === "exclude" &&
+            prev.signature !== filterSignature(statsRef.current)
+                ? emptySelection()
+                : prev
+        );
+    }, [stats.sign]);
+
+    const selectionState = useMemo(
+        () => ({
+            selected: selection,
+            selectedCount: selectionCount(selection, stats.total),
+            isAllMatching: selection.mode === "exclude",
+            isPageSelected:
+                stats.records.length > 0 &&
+                stats.records.every((r) =>
+                    isRowSelected(selection, rowIdRef()(r))
+                ),
+        }),
+        [selection, stats.total, stats.records, rowIdRef]
+    );
+
+    // Export
+    const exportRecords = useCallback(
+        (
+            options: Omit<
+                ExportOptions<TRecord>,
+                "params" | "fetcher" | "adapter"
+            > &
+                Partial<Pick<ExportOptions<TRecord>, "fetcher">>
+        ) => {
+            const records = dataRef();
+            const local: Fetcher | null = records
+                ? (params) => {
+                      const result = queryRecords(
+                          records,
+                          params,
+                          searchFieldsRef()
+                      );
+                      return Promise.resolve({
+                          data: result.records,
+                          total: result.total,
+                          pages: result.pages,
+                      });
+                  }
+                : null;
+
+            const fetcher =
+                options.fetcher ?? local ?? (hasFetcher ? fetcherRef : null);
+            if (!fetcher) {
+                return Promise.reject(
+                    new Error("exportRecords requires a fetcher or data")
+                );
             }
+
+            return exportCsv({
+                ...options,
+                params: toParams(statsRef.current),
+                fetcher,
+                adapter: options.fetcher || !local ? adapterRef() : "default",
+            });
         },
-        [callbackRef, persistStats, persistStore]
+        [dataRef, searchFieldsRef, hasFetcher, fetcherRef, adapterRef]
     );
 
+    // Requery local records on change
+    useEffect(() => {
+        if (data === null) return;
+        void load(toParams(statsRef.current), statsRef.current.sign);
+    }, [data, load]);
+
     const filter = useCallback(
-        <T = unknown>(name: string): T | undefined =>
-            stats.filters[name] as T | undefined,
+        <
+            T = never,
+            K extends keyof InferFilters<TSchema> & string =
+                keyof InferFilters<TSchema> & string,
+        >(
+            name: K
+        ): ([T] extends [never] ? InferFilters<TSchema>[K] : T) | undefined =>
+            stats.filters[name] as
+                | ([T] extends [never] ? InferFilters<TSchema>[K] : T)
+                | undefined,
         [stats]
     );
 
@@ -346,7 +1164,8 @@ export function useLister<TRecord = unknown, TMeta = unknown>({
             search: stats.search,
             sort: stats.sorts.length > 0 ? stats.sorts[0] : undefined,
             sorts: stats.sorts,
-            filters: stats.filters,
+            filters: stats.filters as InferFilters<TSchema>,
+            cursor: stats.cursor,
             isFiltered: Object.keys(stats.filters).length > 0,
             total: stats.total,
             pages: stats.pages,
@@ -354,6 +1173,11 @@ export function useLister<TRecord = unknown, TMeta = unknown>({
             to: stats.to,
             meta: stats.meta,
             records: stats.records,
+            nextCursor: stats.nextCursor,
+            hasMore:
+                pagination === "cursor"
+                    ? stats.nextCursor !== ""
+                    : stats.page < stats.pages,
         }),
         [
             stats.page,
@@ -367,16 +1191,40 @@ export function useLister<TRecord = unknown, TMeta = unknown>({
             stats.to,
             stats.meta,
             stats.records,
+            stats.cursor,
+            stats.nextCursor,
+            pagination,
         ]
     );
 
     return {
         ...lister,
+        ...status,
+        ...selectionState,
         reset,
         apply,
         parseUrl,
         parseResponse,
+        refresh,
+        loadMore,
         filter,
+        updateRecord,
+        removeRecord,
+        insertRecord,
+        exportRecords,
+        views,
+        defaultView,
+        saveView,
+        applyView,
+        deleteView,
+        setDefaultView,
+        exportView,
+        importView,
+        isSelected,
+        toggle,
+        selectPage,
+        selectAllMatching,
+        clearSelection,
     } as const;
 }
 
@@ -396,6 +1244,7 @@ function createListerInitial<TRecord = unknown, TMeta = unknown>(
         search: "",
         sorts: [],
         filters: {},
+        cursor: "",
 
         ...removeZero(defaults),
 
@@ -417,5 +1266,65 @@ function createListerInitial<TRecord = unknown, TMeta = unknown>(
 
         meta: {} as TMeta,
         records: [] as TRecord[],
+        nextCursor: "",
     };
 }
+
+/** Extracts the request parameters from lister state. */
+function toParams(stats: ListerParams): ListerParams {
+    return {
+        page: stats.page,
+        limit: stats.limit,
+        search: stats.search,
+        sorts: stats.sorts,
+        filters: { ...stats.filters },
+        cursor: stats.cursor,
+    };
+}
+
+/**
+ * Picks explicitly emptied `search`, `sorts` and `filters`, e.g. a cleared
+ * search box or a column sort toggled off.
+ */
+function pickCleared(params: Partial<ListerParams>): Partial<ListerParams> {
+    const cleared: Partial<ListerParams> = {};
+    if (isString(params.search) && !params.search.trim()) cleared.search = "";
+    if (isArray(params.sorts) && params.sorts.length === 0) cleared.sorts = [];
+    if (isObject(params.filters) && Object.keys(params.filters).length === 0) {
+        cleared.filters = {};
+    }
+    return cleared;
+}
+
+/**
+ * Picks valid non-empty params, dropping everything else. Filters are coerced
+ * against the schema when provided.
+ */
+function sanitize(
+    params: Partial<ListerParams>,
+    schema: FilterSchema | null
+): Partial<ListerParams> {
+    const filters = objectSafe<Record<string, unknown>>(
+        params.filters,
+        undefined
+    );
+
+    return removeZero({
+        page: positiveSafe(params.page, undefined),
+        limit: positiveSafe(params.limit, undefined),
+        search: stringSafe(params.search, undefined),
+        sorts: arraySafe(params.sorts, undefined),
+        filters: filters && schema ? coerceFilters(filters, schema) : filters,
+        cursor: stringSafe(params.cursor, undefined),
+    });
+}
+
+/** Creates a key identifying the query regardless of its position. */
+function queryKey(params: ListerParams): string {
+    return createKey([
+        params.limit,
+        params.search,
+        params.sorts,
+        params.filters,
+    ]);
+}
@@ -0,0 +1,130 @@
+import { isArray, isNumber, isObject, isString } from "../../utils";
+import type {
+    ColumnDefinition,
+    ColumnState,
+    ListerColumn,
+    SortType,
+} from "../types";
+
+/** Creates an empty {@link ColumnState}. */
+export function emptyColumnState(): ColumnState {
+    return { order: [], visibility: {}, widths: {} };
+}
+
+/**
+ * Parses a stored {@link ColumnState}, dropping malformed entries.
+ *
+ * @param raw - Stored JSON string.
+ */
+export function parseColumnState(raw: string | undefined): ColumnState {
+    const state = emptyColumnState();
+    if (!raw) return state;
+
+    try {
+        const v: unknown = JSON.parse(raw);
+        if (!isObject<Record<string, unknown>>(v)) return state;
+
+        if (isArray(v.order)) state.order = v.order.filter(isString);
+        for (const [id, x] of Object.entries(
+            isObject<Record<string, unknown>>(v.visibility) ? v.visibility : {}
+        )) {
+            if (typeof x === "boolean") state.visibility[id] = x;
+        }
+        for (const [id, x] of Object.entries(
+            isObject<Record<string, unknown>>(v.widths) ? v.widths : {}
+        )) {
+            if (isNumber(x) && x > 0) state.widths[id] = x;
+        }
+    } catch {
+        // Ignore malformed state
+    }
+
+    return state;
+}
+
+/**
+ * Toggles the sorting of a field: `asc` → `desc` → none.
+ *
+ * In single mode the field replaces all other rules; in multi mode other rules
+ * are kept and a newly sorted field is appended.
+ *
+ * @param sorts - Current sorting rules.
+ * @param field - Clicked field.
+ * @param multi - Whether to keep other rules (e.g. shift-click).
+ * @returns The next sorting rules.
+ */
+export function toggleSort(
+    sorts: SortType[],
+    field: string,
+    multi = false
+): SortType[] {
+    const current = sorts.find((s) => s.field === field);
+    const next: SortType | undefined = !current
+        ? { field, order: "asc" }
+        : current.order === "asc"
+          ? { field, order: "desc" }
+          : undefined;
+
+    if (!multi) return next ? [next] : [];
+    if (!current) return [...sorts, next!];
+
+    return next
+        ? sorts.map((s) => (s.field === field ? next : s))
+        : sorts.filter((s) => s.field !== field);
+}
+
+/**
+ * Moves a column id to an index.
+ *
+ * @param order - Column ids in display order.
+ * @param id - Column id to move.
+ * @param index - Target index, clamped to the order range.
+ */
+export function moveColumn(
+    order: string[],
+    id: string,
+    index: number
+): string[] {
+    const from = order.indexOf(id);
+    if (from < 0) return order;
+
+    const next = order.filter((c) => c !== id);
+    next.splice(Math.min(Math.max(index, 0), next.length), 0, id);
+    return next;
+}
+
+/**
+ * Resolves column declarations against user preferences and sorts.
+ *
+ * Columns follow `state.order`; unknown ids are ignored and columns missing
+ * from the order keep their declaration order at the end.
+ *
+ * @param columns - Column declarations.
+ * @param state - User column preferences.
+ * @param sorts - Current sorting rules.
+ */
+export function resolveColumns(
+    columns: ColumnDefinition[],
+    state: ColumnState,
+    sorts: SortType[]
+): ListerColumn[] {
+    const ids = columns.map((c) => c.id);
+    const order = [
+        ...state.order.filter((id) => ids.includes(id)),
+        ...ids.filter((id) => !state.order.includes(id)),
+    ];
+
+    return order.map((id) => {
+        const column = columns.find((c) => c.id === id)!;
+        const field = column.field ?? column.id;
+        const sortIndex = sorts.findIndex((s) => s.field === field);
+
+        return {
+            ...column,
+            visible: state.visibility[id] ?? column.visible ?? true,
+            width: state.widths[id] ?? column.width,
+            order: sorts[sortIndex]?.order,
+            sortIndex,
+        };
+    });
+}
@@ -1,6 +1,8 @@
 import { isArray, isObject } from "../../utils";
-import type { ListerParams } from "../types";
+import type { FilterSchema, ListerParams, TypedListerParams } from "../types";
 import { arraySafe, positiveSafe, stringSafe } from "./safe";
+import { decodeOperator, encodeOperator, isFilterOperator } from "./operator";
+import { decodeFilters } from "./schema";
 import {
     decodeArray,
     decodeObject,
@@ -21,8 +23,10 @@ import {
  * - Numeric values (page, limit) are stored only if positive.
  * - Empty strings are omitted.
  * - Sorts are encoded using {@link encodeSorts}.
+ * - Cursor is stored only if not empty.
  * - Filters are encoded based on their type:
  *
+ *   - Operators → {@link encodeOperator}
  *   - Arrays → {@link encodeArray}
  *   - Objects → {@link encodeObject}
  *   - Primitive values → {@link encodeValue}
@@ -34,6 +38,7 @@ export function encode(state: ListerParams): string {
     const limit = positiveSafe(state.limit, 0)!;
     const search = stringSafe(state.search, "")!;
     const sorts = arraySafe(state.sorts, [])!;
+    const cursor = stringSafe(state.cursor, "")!;
 
     const params = new URLSearchParams();
 
@@ -41,9 +46,11 @@ export function encode(state: ListerParams): string {
     if (limit > 0) params.set("limit", String(limit));
     if (search.length > 0) params.set("search", String(search));
     if (sorts.length > 0) params.set("sorts", encodeSorts(sorts));
+    if (cursor.length > 0) params.set("cursor", cursor);
 
     for (const [k, v] of Object.entries(state.filters)) {
-        if (isArray(v)) params.set(k, encodeArray(v));
+        if (isFilterOperator(v)) params.set(k, encodeOperator(v));
+        else if (isArray(v)) params.set(k, encodeArray(v));
         else if (isObject(v)) params.set(k, encodeObject(v));
         else params.set(k, encodeValue(v));
     }
@@ -56,16 +63,25 @@ export function encode(state: ListerParams): string {
  *
  * Decoding rules:
  *
- * - `page`, `limit`, `search`, `sorts` are handled explicitly.
+ * - `page`, `limit`, `search`, `sorts`, `cursor` are handled explicitly.
  * - Remaining entries are treated as filters:
  *
+ *   - `~op(...)` values → operators via {@link decodeOperator}
  *   - Comma-separated values without ":" → array filters
  *   - Key:value pairs → object filters
  *   - Otherwise → inferred primitive via {@link inferType}
  *
+ * When a schema is provided, only declared filters are decoded and their values
+ * are coerced through {@link decodeFilters} instead of being inferred, and the
+ * returned filters are typed after the schema.
+ *
  * @param query Raw querystring (with or without leading `?`)
+ * @param schema Optional filter schema
  */
-export function decode(query: string): ListerParams {
+export function decode<TSchema extends FilterSchema = FilterSchema>(
+    query: string,
+    schema?: TSchema | null
+): TypedListerParams<TSchema> {
     const params = new URLSearchParams(query);
 
     const state: ListerParams = {
@@ -76,13 +92,28 @@ export function decode(query: string): ListerParams {
         filters: {},
     };
 
+    const cursor = stringSafe(params.get("cursor"), "")!;
+    if (cursor) state.cursor = cursor;
+
+    if (schema) {
+        state.filters = decodeFilters(params, schema);
+        return state as TypedListerParams<TSchema>;
+    }
+
     for (const [key, value] of params.entries()) {
-        if (["page", "limit", "search", "sorts"].includes(key)) continue;
+        if (["page", "limit", "search", "sorts", "cursor"].includes(key))
+            continue;
 
         const filter = decodeValue(key).trim();
         if (!filter) continue;
 
-        if (value.includes(",") && !value.includes(":")) {
+        const operator = value.startsWith("~")
+            ? decodeOperator(value)
+            : undefined;
+
+        if (operator) {
+            state.filters[filter] = operator;
+        } else if (value.includes(",") && !value.includes(":")) {
             state.filters[filter] = decodeArray(value);
         } else if (value.includes(":")) {
             state.filters[filter] = decodeObject(value);
@@ -91,5 +122,5 @@ export function decode(query: string): ListerParams {
         }
     }
 
-    return state;
+    return state as TypedListerParams<TSchema>;
 }
@@ -0,0 +1,189 @@
+import { createKey } from "../../utils";
+import type { HistoryAdapter, HistoryMode, ListerParams } from "../types";
+
+/** Memory based {@link HistoryAdapter} with manual navigation controls. */
+export interface MemoryHistoryAdapter extends HistoryAdapter {
+    /** Query strings of all history entries */
+    entries: () => string[];
+    /** Navigates to the previous entry and notifies subscribers */
+    back: () => void;
+    /** Navigates to the next entry and notifies subscribers */
+    forward: () => void;
+}
+
+/**
+ * Creates a {@link HistoryAdapter} backed by the browser History API.
+ *
+ * - Reads from `window.location.search`.
+ * - Writes using `history.pushState` or `history.replaceState` while preserving
+ *   the current pathname and hash.
+ * - Notifies subscribers on `popstate`.
+ *
+ * Safe to call in non-browser environments, where it reads an empty query and
+ * ignores writes.
+ */
+export function createBrowserHistory(): HistoryAdapter {
+    const isBrowser = typeof window !== "undefined";
+
+    const read = () => (isBrowser ? window.location.search : "");
+
+    const write = (query: string, mode: HistoryMode) => {
+        if (!isBrowser) return;
+
+        const { pathname, search, hash } = window.location;
+        const next = query ? `?${query}` : "";
+        if (next === search) return;
+
+        const url = `${pathname}${next}${hash}`;
+        if (mode === "push") {
+            window.history.pushState(window.history.state, "", url);
+        } else {
+            window.history.replaceState(window.history.state, "", url);
+        }
+    };
+
+    const subscribe = (fn: () => void) => {
+        if (!isBrowser) return () => {};
+
+        window.addEventListener("popstate", fn);
+        return () => window.removeEventListener("popstate", fn);
+    };
+
+    return { read, write, subscribe };
+}
+
+/**
+ * Creates an in-memory {@link HistoryAdapter}, useful for tests and non-browser
+ * environments.
+ *
+ * @param initial - Initial query string. Defaults to `""`.
+ */
+export function createMemoryHistory(initial = ""): MemoryHistoryAdapter {
+    const stack = [initial.replace(/^\?/, "")];
+    const subscribers = new Set<() => void>();
+    let index = 0;
+
+    const notify = () => subscribers.forEach((fn) => fn());
+
+    const read = () => stack[index]!;
+
+    const write = (query: string, mode: HistoryMode) => {
+        query = query.replace(/^\?/, "");
+        if (query === stack[index]) return;
+
+        if (mode === "push") {
+            stack.splice(index + 1, stack.length, query);
+            index++;
+        } else {
+            stack[index] = query;
+        }
+    };
+
+    const subscribe = (fn: () => void) => {
+        subscribers.add(fn);
+        return () => {
+            subscribers.delete(fn);
+        };
+    };
+
+    const back = () => {
+        if (index <= 0) return;
+        index--;
+        notify();
+    };
+
+    const forward = () => {
+        if (index >= stack.length - 1) return;
+        index++;
+        notify();
+    };
+
+    return {
+        read,
+        write,
+        subscribe,
+        entries: () => [...stack],
+        back,
+        forward,
+    };
+}
+
+/**
+ * Extracts the query keys owned by a namespace.
+ *
+ * Keys are expected in `namespace.key` form and returned without the prefix.
+ * Without a namespace the whole query is returned.
+ *
+ * @param query - Full query string (with or without leading `?`).
+ * @param namespace - Key prefix of the lister.
+ */
+export function readNamespace(query: string, namespace: string): string {
+    const params = new URLSearchParams(query);
+    if (!namespace) return params.toString();
+
+    const prefix = `${namespace}.`;
+    const result = new URLSearchParams();
+    for (const [key, value] of params.entries()) {
+        if (key.startsWith(prefix)) {
+            result.append(key.slice(prefix.length), value);
+        }
+    }
+
+    return result.toString();
+}
+
+/**
+ * Replaces the query keys owned by a namespace, preserving all other keys.
+ *
+ * Without a namespace the encoded query replaces the whole query.
+ *
+ * @param query - Full query string (with or without leading `?`).
+ * @param encoded - Encoded lister params, see {@link encode}.
+ * @param namespace - Key prefix of the lister.
+ */
+export function writeNamespace(
+    query: string,
+    encoded: string,
+    namespace: string
+): string {
+    if (!namespace) return encoded;
+
+    const prefix = `${namespace}.`;
+    const result = new URLSearchParams();
+    for (const [key, value] of new URLSearchParams(query).entries()) {
+        if (!key.startsWith(prefix)) {
+            result.append(key, value);
+        }
+    }
+
+    for (const [key, value] of new URLSearchParams(encoded).entries()) {
+        result.append(`${prefix}${key}`, value);
+    }
+
+    return result.toString();
+}
+
+/**
+ * Resolves the navigation policy for a params change.
+ *
+ * Returns `push` when any changed field is configured to push, otherwise
+ * `replace`.
+ *
+ * @param prev - Previous params.
+ * @param next - Next params.
+ * @param policy - Navigation policy per field.
+ */
+export function resolveHistoryMode(
+    prev: ListerParams,
+    next: ListerParams,
+    policy: Partial<Record<keyof ListerParams, HistoryMode>>
+): HistoryMode {
+    const fields = Object.keys(policy) as Array<keyof ListerParams>;
+    const isPush = fields.some(
+        (field) =>
+            policy[field] === "push" &&
+            createKey([prev[field]]) !== createKey([next[field]])
+    );
+
+    return isPush ? "push" : "replace";
+}
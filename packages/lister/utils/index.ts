@@ -1,3 +1,16 @@
+export * from "./column";
 export * from "./encoder";
+export * from "./export";
+export * from "./history";
+export * from "./local";
+export * from "./mutation";
+export * from "./operator";
+export * from "./poll";
+export * from "./queue";
+export * from "./response";
 export * from "./safe";
+export * from "./schema";
+export * from "./selection";
+export * from "./storage";
 export * from "./utils";
+export * from "./view";
@@ -0,0 +1,217 @@
+import {
+    isArray,
+    isNumeric,
+    isObject,
+    isPrimitive,
+    normalizeText,
+    type CompoundType,
+    type PrimitiveType,
+} from "../../utils";
+import type {
+    FilterOperator,
+    ListerParams,
+    ListerResult,
+    SearchField,
+    SortType,
+} from "../types";
+import { isFilterOperator } from "./operator";
+
+/**
+ * Reads a (dot separated) field of a record.
+ *
+ * @param record - The record.
+ * @param field - Field name, e.g. `"city.name"`.
+ * @returns The field value, or `undefined` when missing.
+ */
+export function readField(record: unknown, field: string): unknown {
+    let value = record;
+    for (const key of field.split(".")) {
+        if (!isObject<Record<string, unknown>>(value)) return undefined;
+        value = value[key];
+    }
+    return value;
+}
+
+/**
+ * Compares two values for sorting and range matching.
+ *
+ * Numeric values are compared as numbers, everything else as normalized text
+ * with natural number ordering. Nullish values sort last.
+ */
+function compare(a: unknown, b: unknown): number {
+    if (a == null || b == null) return a == null ? (b == null ? 0 : 1) : -1;
+    if (isNumeric(a) && isNumeric(b)) return Number(a) - Number(b);
+    if (typeof a === "boolean" || typeof b === "boolean") {
+        return Number(a) - Number(b);
+    }
+
+    return normalizeText(a).localeCompare(normalizeText(b), undefined, {
+        numeric: true,
+    });
+}
+
+/** Checks a record value against a primitive filter value. */
+function equals(v: unknown, expected: PrimitiveType): boolean {
+    if (expected == null) return v == null;
+    if (isArray(v)) return v.some((x) => equals(x, expected));
+    return v != null && normalizeText(v) === normalizeText(expected);
+}
+
+/** Checks a record value against a filter operator. */
+function matchOperator(v: unknown, { op, value }: FilterOperator): boolean {
+    const [a, b] = value;
+    switch (op) {
+        case "eq":
+            return equals(v, a ?? null);
+        case "ne":
+            return !equals(v, a ?? null);
+        case "gt":
+            return v != null && compare(v, a) > 0;
+        case "gte":
+            return v != null && compare(v, a) >= 0;
+        case "lt":
+            return v != null && compare(v, a) < 0;
+        case "lte":
+            return v != null && compare(v, a) <= 0;
+        case "between":
+            return v != null && compare(v, a) >= 0 && compare(v, b) <= 0;
+        case "in":
+            return value.some((x) => equals(v, x));
+        case "nin":
+            return !value.some((x) => equals(v, x));
+        case "null":
+            return v == null || v === "";
+        case "notnull":
+            return v != null && v !== "";
+    }
+}
+
+/**
+ * Checks a record value against a filter value.
+ *
+ * - Operators are evaluated with their semantics.
+ * - Arrays match any of their items.
+ * - `{ min, max }` objects match an inclusive range.
+ * - Other objects match nested fields.
+ * - Primitives match by normalized equality.
+ *
+ * @param v - The record value.
+ * @param filter - The filter value.
+ */
+export function matchFilter(
+    v: unknown,
+    filter: CompoundType | FilterOperator
+): boolean {
+    if (isFilterOperator(filter)) return matchOperator(v, filter);
+    if (isArray(filter)) return filter.some((x) => equals(v, x));
+    if (isPrimitive(filter)) return equals(v, filter);
+
+    const keys = Object.keys(filter);
+    if (keys.every((k) => k === "min" || k === "max")) {
+        return (
+            v != null &&
+            (filter.min == null || compare(v, filter.min) >= 0) &&
+            (filter.max == null || compare(v, filter.max) <= 0)
+        );
+    }
+
+    return keys.every((k) => equals(readField(v, k), filter[k] ?? null));
+}
+
+/**
+ * Sorts records by multiple fields. The sort is stable and does not mutate the
+ * input.
+ *
+ * @param records - Records to sort.
+ * @param sorts - Sorting rules in priority order.
+ */
+export function sortRecords<T>(records: T[], sorts: SortType[]): T[] {
+    if (sorts.length === 0) return records;
+
+    return [...records].sort((a, b) => {
+        for (const { field, order } of sorts) {
+            const result = compare(readField(a, field), readField(b, field));
+            if (result !== 0) return order === "desc" ? -result : result;
+        }
+        return 0;
+    });
+}
+
+/**
+ * Searches records. Every whitespace separated term must appear in one of the
+ * searchable fields; matching is case-insensitive and Persian/Arabic
+ * normalized, see {@link normalizeText}.
+ *
+ * @param records - Records to search.
+ * @param search - Search keyword.
+ * @param fields - Searchable fields as (dot separated) names or accessors. All
+ *   primitive fields are searched when empty.
+ */
+export function searchRecords<T>(
+    records: T[],
+    search: string,
+    fields: Array<SearchField<T>> = []
+): T[] {
+    const terms = normalizeText(search).split(" ").filter(Boolean);
+    if (terms.length === 0) return records;
+
+    const textOf = (record: T) => {
+        const values =
+            fields.length > 0
+                ? fields.map((f) =>
+                      typeof f === "function" ? f(record) : readField(record, f)
+                  )
+                : Object.values(isObject(record) ? record : {}).filter(
+                      isPrimitive
+                  );
+
+        return normalizeText(values.flat().join(" "));
+    };
+
+    return records.filter((record) => {
+        const text = textOf(record);
+        return terms.every((term) => text.includes(term));
+    });
+}
+
+/**
+ * Runs a lister query over in-memory records: search, filters, sorts and
+ * pagination, producing the same result shape as a backend response.
+ *
+ * Records are paginated by `page` and `limit`; a non-positive limit returns
+ * every matched record.
+ *
+ * @template T - Type of individual records.
+ * @template M - Type of metadata object.
+ * @param records - Source records.
+ * @param params - Lister params.
+ * @param fields - Searchable fields, see {@link searchRecords}.
+ */
+export function queryRecords<T, M = unknown>(
+    records: T[],
+    params: ListerParams,
+    fields: Array<SearchField<T>> = []
+): ListerResult<T, M> {
+    let matched = searchRecords(records, params.search, fields);
+    for (const [name, filter] of Object.entries(params.filters)) {
+        matched = matched.filter((r) =>
+            matchFilter(readField(r, name), filter)
+        );
+    }
+    matched = sortRecords(matched, params.sorts);
+
+    const total = matched.length;
+    const limit = params.limit > 0 ? params.limit : total;
+    const start = (Math.max(params.page, 1) - 1) * limit;
+    const page = matched.slice(start, start + limit);
+
+    return {
+        total,
+        pages: limit > 0 ? Math.ceil(total / limit) : 0,
+        from: page.length > 0 ? start + 1 : 0,
+        to: page.length > 0 ? start + page.length : 0,
+        meta: {} as M,
+        records: page,
+        nextCursor: "",
+    };
+}
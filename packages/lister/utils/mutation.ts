@@ -0,0 +1,91 @@
+import type { ListerParams, ListerResult } from "../types";
+
+/** Result fields affected by record mutations. */
+type MutableResult = Pick<
+    ListerResult<unknown, unknown>,
+    "records" | "total" | "pages" | "from" | "to"
+> &
+    Pick<ListerParams, "limit">;
+
+/** Computes `from` and `to` for a number of visible records. */
+function bounds(from: number, count: number) {
+    return count > 0 ? { from, to: from + count - 1 } : { from: 0, to: 0 };
+}
+
+/** Computes `pages` for a new total, keeping it when there is no limit. */
+function countPages(result: MutableResult, total: number) {
+    return result.limit > 0 ? Math.ceil(total / result.limit) : result.pages;
+}
+
+/**
+ * Replaces the record at an index.
+ *
+ * @param result - Current result.
+ * @param index - Record index; out of range indexes are ignored.
+ * @param record - Replacement record.
+ */
+export function replaceRecordAt<R extends MutableResult>(
+    result: R,
+    index: number,
+    record: R["records"][number]
+): R {
+    if (index < 0 || index >= result.records.length) return result;
+
+    const records = [...result.records];
+    records[index] = record;
+    return { ...result, records };
+}
+
+/**
+ * Removes the record at an index, decrementing `total` and `to` and updating
+ * `pages`.
+ *
+ * @param result - Current result.
+ * @param index - Record index; out of range indexes are ignored.
+ */
+export function removeRecordAt<R extends MutableResult>(
+    result: R,
+    index: number
+): R {
+    if (index < 0 || index >= result.records.length) return result;
+
+    const records = result.records.filter((_, i) => i !== index);
+    const total = Math.max(result.total - 1, 0);
+    return {
+        ...result,
+        records,
+        total,
+        pages: countPages(result, total),
+        ...bounds(result.from, records.length),
+    };
+}
+
+/**
+ * Inserts a record at an index, incrementing `total` and `to` and updating
+ * `pages`.
+ *
+ * @param result - Current result.
+ * @param index - Target index, clamped to the records range.
+ * @param record - Record to insert.
+ */
+export function insertRecordAt<R extends MutableResult>(
+    result: R,
+    index: number,
+    record: R["records"][number]
+): R {
+    const at = Math.min(Math.max(index, 0), result.records.length);
+    const records = [
+        ...result.records.slice(0, at),
+        record,
+        ...result.records.slice(at),
+    ];
+
+    const total = result.total + 1;
+    return {
+        ...result,
+        records,
+        total,
+        pages: countPages(result, total),
+        ...bounds(result.from || 1, records.length),
+    };
+}
@@ -0,0 +1,170 @@
+import {
+    isArray,
+    isObject,
+    isPrimitive,
+    isString,
+    parseFrom,
+    type PrimitiveType,
+} from "../../utils";
+import type { FilterOperator, OperatorType } from "../types";
+import { decodeValue, inferType } from "./utils";
+
+/** All supported operators mapped to their operand count rule. */
+const OPERATORS: Record<OperatorType, (count: number) => boolean> = {
+    eq: (n) => n === 1,
+    ne: (n) => n === 1,
+    gt: (n) => n === 1,
+    gte: (n) => n === 1,
+    lt: (n) => n === 1,
+    lte: (n) => n === 1,
+    between: (n) => n === 2,
+    in: (n) => n > 0,
+    nin: (n) => n > 0,
+    null: (n) => n === 0,
+    notnull: (n) => n === 0,
+};
+
+/** Checks whether a value is a valid {@link OperatorType}. */
+export function isOperatorType(v: unknown): v is OperatorType {
+    return isString(v) && Object.prototype.hasOwnProperty.call(OPERATORS, v);
+}
+
+/**
+ * Validates that a value conforms to the {@link FilterOperator} structure. A
+ * valid object must contain:
+ *
+ * - `op`: valid {@link OperatorType}
+ * - `value`: array of primitives matching the operator arity
+ */
+export function isFilterOperator(v: unknown): v is FilterOperator {
+    return (
+        isObject<Record<string, unknown>>(v) &&
+        isOperatorType(v.op) &&
+        isArray(v.value) &&
+        v.value.every(isPrimitive) &&
+        OPERATORS[v.op](v.value.length)
+    );
+}
+
+/**
+ * Creates a {@link FilterOperator}.
+ *
+ * @example
+ *     createOperator("between", 10, 20); // { op: "between", value: [10, 20] }
+ *     createOperator("null"); // { op: "null", value: [] }
+ *
+ * @param op - The comparison operator.
+ * @param value - The operands.
+ */
+export function createOperator<T extends PrimitiveType>(
+    op: OperatorType,
+    ...value: T[]
+): FilterOperator<T> {
+    return { op, value };
+}
+
+/**
+ * Encodes a single operand for lossless transport.
+ *
+ * - Besides URI encoding, `(`, `)`, `'`, `~`, `!` and `*` are escaped so they
+ *   never clash with the operator syntax.
+ * - Strings that would otherwise be inferred as another type (e.g. `"007"` or
+ *   `"true"`) are prefixed with `'`.
+ */
+export function encodeOperand(v: PrimitiveType): string {
+    const escape = (x: string) =>
+        encodeURIComponent(x).replace(
+            /[()'~!*]/g,
+            (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+        );
+
+    if (isString(v)) {
+        const escaped = escape(v);
+        return inferType(escaped) === v ? escaped : `'${escaped}`;
+    }
+
+    return escape(v == null ? "[null]" : String(v));
+}
+
+/** Decodes an operand previously encoded with {@link encodeOperand}. */
+export function decodeOperand(v: string): PrimitiveType {
+    return v.startsWith("'") ? decodeValue(v.slice(1)) : inferType(v);
+}
+
+/**
+ * Encodes a {@link FilterOperator} into a compact string.
+ *
+ * Format: `~op(operand,operand)`
+ */
+export function encodeOperator(v: FilterOperator): string {
+    return `~${v.op}(${v.value.map(encodeOperand).join(",")})`;
+}
+
+/**
+ * Decodes an operator previously encoded with {@link encodeOperator}.
+ *
+ * @param encoded - The encoded operator.
+ * @param infer - Whether to infer operand types. When `false` operands are
+ *   returned as raw strings. Defaults to `true`.
+ * @returns The decoded operator, or `undefined` when invalid.
+ */
+export function decodeOperator(
+    encoded: string,
+    infer = true
+): FilterOperator | undefined {
+    const match = /^~([a-z]+)\((.*)\)$/.exec(encoded);
+    if (!match || !isOperatorType(match[1])) return undefined;
+
+    const operands = match[2] ? match[2].split(",") : [];
+    const result = {
+        op: match[1],
+        value: operands.map((o) =>
+            infer ? decodeOperand(o) : decodeValue(o.replace(/^'/, ""))
+        ),
+    };
+
+    return isFilterOperator(result) ? result : undefined;
+}
+
+/**
+ * Creates a date range operator with Gregorian `YYYY-MM-DD` operands.
+ *
+ * Input dates are parsed using `format`, so Jalali dates are supported with
+ * `j`-prefixed tokens (e.g. `"jYYYY/jMM/jDD"`).
+ *
+ * - Both bounds → `between`
+ * - Only `from` → `gte`
+ * - Only `to` → `lte`
+ *
+ * @example
+ *     dateRange("1402/01/01", "1402/01/31", "jYYYY/jMM/jDD");
+ *     // { op: "between", value: ["2023-03-21", "2023-04-20"] }
+ *
+ * @param from - Inclusive start date.
+ * @param to - Inclusive end date.
+ * @param format - Input date format. Defaults to `"YYYY-MM-DD"`.
+ * @returns The operator, or `undefined` when no bound is valid.
+ */
+export function dateRange(
+    from?: string,
+    to?: string,
+    format = "YYYY-MM-DD"
+): FilterOperator<string> | undefined {
+    const toDate = (v?: string) => {
+        if (!v?.trim()) return undefined;
+        const date = parseFrom(format, v.trim());
+        return date.isValid() ? date.format("YYYY-MM-DD") : undefined;
+    };
+
+    const start = toDate(from);
+    const end = toDate(to);
+
+    if (start && end) {
+        return start <= end
+            ? createOperator("between", start, end)
+            : createOperator("between", end, start);
+    }
+    if (start) return createOperator("gte", start);
+    if (end) return createOperator("lte", end);
+    return undefined;
+}
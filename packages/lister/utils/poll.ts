@@ -0,0 +1,59 @@
+/** Periodic task runner created by {@link createPoller}. */
+export interface Poller {
+    /**
+     * Schedules the next run, e.g. after the page becomes visible again. Does
+     * nothing while paused, stopped or while a run is in progress.
+     */
+    schedule: () => void;
+    /** Stops polling and cancels the scheduled run. */
+    stop: () => void;
+}
+
+/**
+ * Creates a {@link Poller} running `task` every `interval` milliseconds.
+ *
+ * The interval is measured from the end of the previous run, so a slow task
+ * never overlaps with the next one. While `isPaused` returns `true` nothing is
+ * scheduled; once resumed through `schedule`, an overdue run starts right away.
+ * Failed runs do not stop polling.
+ *
+ * @param task - The task to run.
+ * @param interval - Delay between runs in milliseconds.
+ * @param isPaused - Checks whether polling is paused.
+ */
+export function createPoller(
+    task: () => Promise<unknown>,
+    interval: number,
+    isPaused: () => boolean = () => false
+): Poller {
+    let active = true;
+    let running = false;
+    let last = Date.now();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const schedule = () => {
+        clearTimeout(timer);
+        if (!active || running || isPaused()) return;
+
+        timer = setTimeout(
+            () => {
+                running = true;
+                void task()
+                    .catch(() => undefined)
+                    .finally(() => {
+                        running = false;
+                        last = Date.now();
+                        schedule();
+                    });
+            },
+            Math.max(last + interval - Date.now(), 0)
+        );
+    };
+
+    const stop = () => {
+        active = false;
+        clearTimeout(timer);
+    };
+
+    return { schedule, stop };
+}
@@ -0,0 +1,79 @@
+/** Serialized task queue. */
+export interface TaskQueue {
+    /**
+     * Runs a task once all previously queued tasks have settled.
+     *
+     * @param task - The task to run.
+     * @returns The task result.
+     */
+    run: <T>(task: () => Promise<T>) => Promise<T>;
+    /**
+     * Queues a task, coalescing it with a queued task of the same key that has
+     * not started yet and is still the last queued task. Inputs are combined
+     * with `merge` and the latest `task` runs once with the combined input; all
+     * callers receive the same result. Tasks queued in between are never
+     * overtaken, so a new entry is queued behind them instead.
+     *
+     * @param key - Coalescing key.
+     * @param input - Task input.
+     * @param merge - Combines the queued input with the new one.
+     * @param task - The task to run.
+     * @returns The task result.
+     */
+    coalesce: <TInput, TResult>(
+        key: string,
+        input: TInput,
+        merge: (prev: TInput, next: TInput) => TInput,
+        task: (input: TInput) => Promise<TResult>
+    ) => Promise<TResult>;
+}
+
+/** Creates a {@link TaskQueue}. Failed tasks never block subsequent ones. */
+export function createQueue(): TaskQueue {
+    let tail: Promise<unknown> = Promise.resolve();
+    let last: Promise<unknown> | null = null;
+    const pending = new Map<
+        string,
+        {
+            input: unknown;
+            task: (input: unknown) => Promise<unknown>;
+            promise: Promise<unknown>;
+        }
+    >();
+
+    const run = <T>(task: () => Promise<T>): Promise<T> => {
+        const result = tail.then(task);
+        tail = result.catch(() => undefined);
+        last = result;
+        return result;
+    };
+
+    const coalesce = <TInput, TResult>(
+        key: string,
+        input: TInput,
+        merge: (prev: TInput, next: TInput) => TInput,
+        task: (input: TInput) => Promise<TResult>
+    ): Promise<TResult> => {
+        const queued = pending.get(key);
+        if (queued?.promise === last) {
+            queued.input = merge(queued.input as TInput, input);
+            queued.task = task as (input: unknown) => Promise<unknown>;
+            return queued.promise as Promise<TResult>;
+        }
+
+        const entry = {
+            input: input as unknown,
+            task: task as (input: unknown) => Promise<unknown>,
+            promise: Promise.resolve() as Promise<unknown>,
+        };
+        pending.set(key, entry);
+        entry.promise = run(() => {
+            if (pending.get(key) === entry) pending.delete(key);
+            return entry.task(entry.input);
+        });
+
+        return entry.promise as Promise<TResult>;
+    };
+
+    return { run, coalesce };
+}
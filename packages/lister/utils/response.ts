@@ -0,0 +1,324 @@
+import { isArray, isNumeric, isObject } from "../../utils";
+import type {
+    ListerParams,
+    ListerResponse,
+    ListerResult,
+    ResponseAdapter,
+    ResponseFormat,
+} from "../types";
+import { arraySafe, positiveSafe, stringSafe } from "./safe";
+
+/** Response keys consumed by the lister and excluded from `meta`. */
+const RESERVED_KEYS = [
+    "page",
+    "limit",
+    "search",
+    "sorts",
+    "total",
+    "pages",
+    "from",
+    "to",
+    "data",
+    "nextCursor",
+];
+
+/** Laravel paginator keys excluded from `meta`. */
+const LARAVEL_KEYS = [
+    "data",
+    "current_page",
+    "per_page",
+    "total",
+    "last_page",
+    "from",
+    "to",
+    "path",
+    "links",
+    "first_page_url",
+    "last_page_url",
+    "next_page_url",
+    "prev_page_url",
+    "next_cursor",
+    "prev_cursor",
+];
+
+/** JSON:API pagination keys excluded from `meta`. */
+const JSON_API_KEYS = ["total", "totalCount", "totalPages", "page"];
+
+/** Spring `Page` keys excluded from `meta`. */
+const SPRING_KEYS = [
+    "content",
+    "_embedded",
+    "page",
+    "pageable",
+    "totalElements",
+    "totalPages",
+    "number",
+    "size",
+    "numberOfElements",
+    "first",
+    "last",
+    "empty",
+    "sort",
+];
+
+/** GraphQL connection keys excluded from `meta`. */
+const GRAPHQL_KEYS = ["edges", "nodes", "pageInfo", "totalCount"];
+
+/** Returns a shallow copy of an object without the given keys. */
+function omit(
+    obj: Record<string, unknown>,
+    keys: string[]
+): Record<string, unknown> {
+    return Object.fromEntries(
+        Object.entries(obj).filter(([k]) => !keys.includes(k))
+    );
+}
+
+/** Returns the object value or an empty object. */
+function record(v: unknown): Record<string, unknown> {
+    return isObject<Record<string, unknown>>(v) ? v : {};
+}
+
+/**
+ * Creates an empty {@link ListerResult} used when no valid response exists.
+ *
+ * @template TRecord - Type of individual records.
+ * @template TMeta - Type of metadata object.
+ */
+export function emptyResult<TRecord, TMeta>(): ListerResult<TRecord, TMeta> {
+    return {
+        total: 0,
+        pages: 0,
+        from: 0,
+        to: 0,
+        meta: {} as TMeta,
+        records: [] as TRecord[],
+        nextCursor: "",
+    };
+}
+
+/**
+ * Default {@link ResponseAdapter}.
+ *
+ * Expected shape: `{ data, total, pages, from, to, nextCursor, ...meta }`.
+ * Every unknown key is collected into `meta`.
+ */
+export function defaultAdapter(response: unknown): ListerResponse | null {
+    if (!isObject<Record<string, unknown>>(response)) return null;
+
+    return {
+        records: response.data,
+        total: response.total,
+        pages: response.pages,
+        from: response.from,
+        to: response.to,
+        nextCursor: response.nextCursor,
+        page: response.page,
+        limit: response.limit,
+        search: response.search,
+        sorts: response.sorts,
+        meta: omit(response, RESERVED_KEYS),
+    };
+}
+
+/**
+ * Laravel {@link ResponseAdapter}.
+ *
+ * Supports plain paginators (`{ data, current_page, per_page, total, ... }`),
+ * cursor paginators (`next_cursor`) and API resource collections where
+ * pagination lives under `meta`. Pagination links are not collected into
+ * `meta`.
+ */
+export function laravelAdapter(response: unknown): ListerResponse | null {
+    if (!isObject<Record<string, unknown>>(response)) return null;
+
+    const nested = isObject<Record<string, unknown>>(response.meta);
+    const paginator = nested ? record(response.meta) : response;
+
+    return {
+        records: response.data,
+        total: paginator.total,
+        pages: paginator.last_page,
+        from: paginator.from,
+        to: paginator.to,
+        nextCursor: paginator.next_cursor,
+        page: paginator.current_page,
+        limit: paginator.per_page,
+        meta: nested
+            ? {
+                  ...omit(response, [...LARAVEL_KEYS, "meta"]),
+                  ...omit(paginator, LARAVEL_KEYS),
+              }
+            : omit(response, LARAVEL_KEYS),
+    };
+}
+
+/**
+ * JSON:API {@link ResponseAdapter}.
+ *
+ * Records are the primary `data` resources. Pagination is read from `meta`
+ * (`total`/`totalCount`, `totalPages`) or `meta.page` (`total`, `totalPages` or
+ * `lastPage`, `currentPage`, `perPage` or `size`). Remaining `meta` keys and
+ * top-level members such as `links` and `included` are collected into `meta`.
+ */
+export function jsonApiAdapter(response: unknown): ListerResponse | null {
+    if (!isObject<Record<string, unknown>>(response)) return null;
+
+    const meta = record(response.meta);
+    const page = record(meta.page);
+
+    return {
+        records: response.data,
+        total: meta.total ?? meta.totalCount ?? page.total,
+        pages: meta.totalPages ?? page.totalPages ?? page.lastPage,
+        page: page.currentPage,
+        limit: page.perPage ?? page.size,
+        meta: {
+            ...omit(response, ["data", "meta"]),
+            ...omit(meta, JSON_API_KEYS),
+        },
+    };
+}
+
+/**
+ * Spring Data {@link ResponseAdapter}.
+ *
+ * Supports `Page` (`{ content, totalElements, totalPages, number, size }`) and
+ * `PagedModel` (`{ content | _embedded, page: { ... } }`) shapes. The 0-based
+ * `number` is converted to a 1-based page.
+ */
+export function springAdapter(response: unknown): ListerResponse | null {
+    if (!isObject<Record<string, unknown>>(response)) return null;
+
+    const paged = isObject<Record<string, unknown>>(response.page);
+    const page = paged ? record(response.page) : response;
+    const embedded = Object.values(record(response._embedded)).find(isArray);
+
+    return {
+        records: response.content ?? embedded,
+        total: page.totalElements,
+        pages: page.totalPages,
+        page: isNumeric(page.number) ? Number(page.number) + 1 : undefined,
+        limit: page.size,
+        meta: omit(response, SPRING_KEYS),
+    };
+}
+
+/**
+ * GraphQL connection {@link ResponseAdapter}.
+ *
+ * Accepts a connection (`{ edges | nodes, pageInfo, totalCount }`), or a
+ * GraphQL result (`{ data: { field: connection } }`) with a single root field.
+ * `pageInfo.endCursor` becomes `nextCursor` while `hasNextPage` is `true`.
+ */
+export function graphqlAdapter(response: unknown): ListerResponse | null {
+    const isConnection = (v: unknown): v is Record<string, unknown> =>
+        isObject<Record<string, unknown>>(v) &&
+        (isArray(v.edges) || isArray(v.nodes));
+
+    const connection = isConnection(response)
+        ? response
+        : Object.values(record(record(response).data ?? response)).find(
+              isConnection
+          );
+    if (!connection) return null;
+
+    const pageInfo = record(connection.pageInfo);
+    const records = isArray(connection.nodes)
+        ? connection.nodes
+        : (connection.edges as unknown[]).map((edge) => record(edge).node);
+
+    return {
+        records,
+        total: connection.totalCount,
+        nextCursor: pageInfo.hasNextPage === true ? pageInfo.endCursor : "",
+        meta: omit(connection, GRAPHQL_KEYS),
+    };
+}
+
+/** Built-in adapters by {@link ResponseFormat}. */
+const ADAPTERS: Record<ResponseFormat, ResponseAdapter> = {
+    default: defaultAdapter,
+    laravel: laravelAdapter,
+    jsonapi: jsonApiAdapter,
+    spring: springAdapter,
+    graphql: graphqlAdapter,
+};
+
+/**
+ * Resolves a {@link ResponseAdapter} from a built-in format name or a custom
+ * adapter function.
+ *
+ * @param adapter - Format name or adapter function. Defaults to `"default"`.
+ */
+export function resolveResponseAdapter(
+    adapter: ResponseFormat | ResponseAdapter = "default"
+): ResponseAdapter {
+    return typeof adapter === "function" ? adapter : ADAPTERS[adapter];
+}
+
+/**
+ * Normalizes a {@link ListerResponse} into a {@link ListerResult}.
+ *
+ * Invalid values fall back to zero. When missing, `pages` is computed from
+ * `total` and `limit`, and `from`/`to` from `page`, `limit` and the number of
+ * records. Reported `page` and `limit` take precedence over `params`.
+ *
+ * @template TRecord - Type of individual records.
+ * @template TMeta - Type of metadata object.
+ * @param response - Envelope extracted by a {@link ResponseAdapter}.
+ * @param params - Current pagination params.
+ */
+export function normalizeResponse<TRecord, TMeta>(
+    response: ListerResponse,
+    params: Pick<ListerParams, "page" | "limit">
+): ListerResult<TRecord, TMeta> {
+    const page = positiveSafe(response.page, params.page)!;
+    const limit = positiveSafe(response.limit, params.limit)!;
+    const records = arraySafe<TRecord>(response.records, [] as TRecord[])!;
+    const total = positiveSafe(response.total, 0)!;
+    let pages = positiveSafe(response.pages, 0)!;
+    let from = positiveSafe(response.from, 0)!;
+    let to = positiveSafe(response.to, 0)!;
+
+    if (!pages && total && limit) {
+        pages = Math.ceil(total / limit);
+    }
+    if (!from && !to && records.length && limit) {
+        from = (page - 1) * limit + 1;
+        to = from + records.length - 1;
+    }
+
+    return {
+        total,
+        pages,
+        from,
+        to,
+        meta: (response.meta ?? {}) as TMeta,
+        records,
+        nextCursor: stringSafe(response.nextCursor, "")!,
+    };
+}
+
+/**
+ * Parses a backend response into a {@link ListerResult}.
+ *
+ * Invalid responses resolve to an empty result.
+ *
+ * @template TRecord - Type of individual records.
+ * @template TMeta - Type of metadata object.
+ * @param response - Raw response returned by the backend.
+ * @param adapter - Adapter extracting the envelope. Defaults to
+ *   {@link defaultAdapter}.
+ * @param params - Current pagination params used to compute missing fields.
+ */
+export function parseResult<TRecord, TMeta>(
+    response: unknown,
+    adapter: ResponseAdapter = defaultAdapter,
+    params: Pick<ListerParams, "page" | "limit"> = { page: 1, limit: 0 }
+): ListerResult<TRecord, TMeta> {
+    const envelope = adapter(response);
+    return envelope
+        ? normalizeResponse<TRecord, TMeta>(envelope, params)
+        : emptyResult();
+}
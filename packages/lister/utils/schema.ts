@@ -0,0 +1,205 @@
+import {
+    isArray,
+    isBoolean,
+    isNumeric,
+    isObject,
+    isString,
+    type CompoundType,
+    type PrimitiveType,
+} from "../../utils";
+import type {
+    FilterDefinition,
+    FilterOperator,
+    FilterSchema,
+    FilterType,
+} from "../types";
+import { decodeOperator, isFilterOperator } from "./operator";
+import { decodeValue } from "./utils";
+
+/**
+ * Coerces a value to the primitive type of a filter definition.
+ *
+ * - `string`: strings are kept as-is, numbers and booleans are stringified.
+ * - `number`: numeric values and strings are converted to number.
+ * - `boolean`: booleans, `"true"`/`"1"` and `"false"`/`"0"` are accepted.
+ *
+ * Values outside of `definition.values` are rejected.
+ *
+ * @param v - The value to coerce.
+ * @param definition - The filter definition.
+ * @returns The coerced primitive, or `undefined` when invalid.
+ */
+export function coercePrimitive(
+    v: unknown,
+    definition: FilterDefinition
+): PrimitiveType | undefined {
+    let result: PrimitiveType | undefined = undefined;
+
+    switch (definition.type) {
+        case "string":
+            if (isString(v)) result = v;
+            else if (isNumeric(v) || isBoolean(v)) result = String(v);
+            break;
+        case "number":
+            if (isNumeric(v) && String(v).trim() !== "") result = Number(v);
+            break;
+        case "boolean":
+            if (v === true || v === "true" || v === "1") result = true;
+            else if (v === false || v === "false" || v === "0") result = false;
+            break;
+    }
+
+    if (result === undefined) return undefined;
+    if (definition.values && !definition.values.includes(result)) {
+        return undefined;
+    }
+
+    return result;
+}
+
+/**
+ * Coerces a value to the shape and type of a filter definition.
+ *
+ * - `single`: a single primitive.
+ * - `array`: invalid items are dropped; a single value is wrapped in an array.
+ * - `range`: only `min` and `max` keys are kept; `min` must not exceed `max`.
+ * - `object`: invalid entries are dropped.
+ * - `operator`: the operator must be allowed by `definition.operators` and all
+ *   operands must be valid.
+ *
+ * Invalid or empty values resolve to `definition.default`.
+ *
+ * @param v - The value to coerce.
+ * @param definition - The filter definition.
+ * @returns The coerced value, or the default (possibly `undefined`).
+ */
+export function coerceFilter(
+    v: unknown,
+    definition: FilterDefinition
+): CompoundType | FilterOperator | undefined {
+    const coerce = (x: unknown) => coercePrimitive(x, definition);
+    let result: CompoundType | FilterOperator | undefined = undefined;
+
+    switch (definition.shape ?? "single") {
+        case "single":
+            result = coerce(v);
+            break;
+        case "array": {
+            const items = (isArray(v) ? v : [v])
+                .map(coerce)
+                .filter((i) => i !== undefined);
+            if (items.length > 0) result = items;
+            break;
+        }
+        case "range": {
+            if (!isObject<Record<string, unknown>>(v)) break;
+
+            const min = coerce(v.min);
+            const max = coerce(v.max);
+            if (min === undefined && max === undefined) break;
+            if (min != null && max != null && (min as number) > (max as number))
+                break;
+
+            const range: Record<string, PrimitiveType> = {};
+            if (min !== undefined) range.min = min;
+            if (max !== undefined) range.max = max;
+            result = range;
+            break;
+        }
+        case "object": {
+            if (!isObject<Record<string, unknown>>(v)) break;
+
+            const entries = Object.entries(v)
+                .map(([k, x]) => [k, coerce(x)] as const)
+                .filter(([, x]) => x !== undefined);
+            if (entries.length > 0) result = Object.fromEntries(entries);
+            break;
+        }
+        case "operator": {
+            if (!isFilterOperator(v)) break;
+            if (definition.operators && !definition.operators.includes(v.op))
+                break;
+
+            const value = v.value.map(coerce);
+            if (value.every((x) => x !== undefined)) {
+                result = { op: v.op, value };
+            }
+            break;
+        }
+    }
+
+    return result ?? definition.default;
+}
+
+/**
+ * Coerces a filters map against a {@link FilterSchema}.
+ *
+ * Unknown filters are dropped, and values are coerced with {@link coerceFilter}.
+ *
+ * @param filters - The filters to coerce.
+ * @param schema - The filter schema.
+ */
+export function coerceFilters(
+    filters: Record<string, unknown>,
+    schema: FilterSchema
+): FilterType {
+    const result: FilterType = {};
+    for (const [name, definition] of Object.entries(schema)) {
+        if (!(name in filters)) continue;
+
+        const value = coerceFilter(filters[name], definition);
+        if (value !== undefined) result[name] = value;
+    }
+    return result;
+}
+
+/**
+ * Decodes raw querystring filters against a {@link FilterSchema}.
+ *
+ * Unlike schema-less decoding, raw values are never type-inferred; they are
+ * split according to the declared shape and coerced to the declared type, so
+ * `code=007` stays `"007"` for a string filter.
+ *
+ * @param params - Parsed querystring.
+ * @param schema - The filter schema.
+ */
+export function decodeFilters(
+    params: URLSearchParams,
+    schema: FilterSchema
+): FilterType {
+    const raw: Record<string, unknown> = {};
+    for (const [name, definition] of Object.entries(schema)) {
+        const value = params.get(name);
+        if (value === null) continue;
+
+        switch (definition.shape ?? "single") {
+            case "single":
+                raw[name] = decodeValue(value);
+                break;
+            case "array":
+                raw[name] = value.split(",").map(decodeValue);
+                break;
+            case "range":
+            case "object":
+                raw[name] = decodeRawObject(value);
+                break;
+            case "operator":
+                raw[name] = decodeOperator(value, false);
+                break;
+        }
+    }
+
+    return coerceFilters(raw, schema);
+}
+
+/** Decodes a `key:value` list without inferring value types. */
+function decodeRawObject(encoded: string): Record<string, string> {
+    const obj: Record<string, string> = {};
+    for (const part of encoded.split(",")) {
+        const [k, v] = part.split(":");
+        if (k?.trim() && v !== undefined) {
+            obj[decodeValue(k.trim())] = decodeValue(v);
+        }
+    }
+    return obj;
+}
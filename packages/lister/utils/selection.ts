@@ -0,0 +1,89 @@
+import { createKey, isNumber, isObject, isString } from "../../utils";
+import type { ListerParams, ListerSelection, RowId } from "../types";
+
+/** Creates an empty {@link ListerSelection}. */
+export function emptySelection(): ListerSelection {
+    return { mode: "include", ids: [], signature: "" };
+}
+
+/**
+ * Default row id resolver reading the `id` property of a record.
+ *
+ * @returns The record id, or an empty string when missing.
+ */
+export function defaultRowId(record: unknown): RowId {
+    if (!isObject<Record<string, unknown>>(record)) return "";
+    return isString(record.id) || isNumber(record.id) ? record.id : "";
+}
+
+/**
+ * Creates the filter signature used to scope `exclude` selections.
+ *
+ * Only `search` and `filters` are included, so the signature survives page,
+ * limit and sort changes.
+ */
+export function filterSignature(
+    params: Pick<ListerParams, "search" | "filters">
+): string {
+    return createKey([params.search, params.filters]);
+}
+
+/** Checks whether a row id is selected. */
+export function isRowSelected(selection: ListerSelection, id: RowId): boolean {
+    const listed = selection.ids.includes(id);
+    return selection.mode === "include" ? listed : !listed;
+}
+
+/**
+ * Selects or deselects rows.
+ *
+ * @param selection - Current selection.
+ * @param ids - Row ids to update.
+ * @param checked - Target state; toggles each row when omitted.
+ * @returns The next selection, or the current one when unchanged.
+ */
+export function selectRows(
+    selection: ListerSelection,
+    ids: RowId[],
+    checked?: boolean
+): ListerSelection {
+    const listed = new Set(selection.ids);
+    for (const id of ids) {
+        const target = checked ?? !isRowSelected(selection, id);
+        if (target === (selection.mode === "include")) listed.add(id);
+        else listed.delete(id);
+    }
+
+    if (
+        listed.size === selection.ids.length &&
+        selection.ids.every((id) => listed.has(id))
+    ) {
+        return selection;
+    }
+
+    return { ...selection, ids: [...listed] };
+}
+
+/**
+ * Creates a selection of every record matching a filter signature.
+ *
+ * @param signature - Filter signature, see {@link filterSignature}.
+ */
+export function selectAll(signature: string): ListerSelection {
+    return { mode: "exclude", ids: [], signature };
+}
+
+/**
+ * Counts selected rows.
+ *
+ * @param selection - Current selection.
+ * @param total - Total number of matching records.
+ */
+export function selectionCount(
+    selection: ListerSelection,
+    total: number
+): number {
+    return selection.mode === "include"
+        ? selection.ids.length
+        : Math.max(total - selection.ids.length, 0);
+}
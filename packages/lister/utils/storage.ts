@@ -0,0 +1,91 @@
+import type { ListerStorage } from "../types";
+
+/** Creates an in-memory `Storage` implementation. */
+export function createMemoryStorage(): Storage {
+    const items = new Map<string, string>();
+
+    return {
+        get length() {
+            return items.size;
+        },
+        clear: () => items.clear(),
+        getItem: (key) => items.get(key) ?? null,
+        key: (index) => [...items.keys()][index] ?? null,
+        removeItem: (key) => {
+            items.delete(key);
+        },
+        setItem: (key, value) => {
+            items.set(key, String(value));
+        },
+    };
+}
+
+/** Memory storage shared by all listers for the page lifetime. */
+const memoryStorage = createMemoryStorage();
+
+/**
+ * Resolves a {@link ListerStorage} option to a `Storage` instance.
+ *
+ * Browser storages resolve to `undefined` in non-browser environments or when
+ * access is denied, which disables persistence.
+ *
+ * @param storage - Storage option. Defaults to `"local"`.
+ */
+export function resolveStorage(
+    storage: ListerStorage = "local"
+): Storage | undefined {
+    if (typeof storage !== "string") return storage;
+    if (storage === "memory") return memoryStorage;
+    if (typeof window === "undefined") return undefined;
+
+    try {
+        return storage === "session"
+            ? window.sessionStorage
+            : window.localStorage;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Checks whether a `storage` event changed one of the given keys persisted by
+ * the lister with `storageKey`. Keys are namespaced the same way `useStorage`
+ * does; clearing the whole storage matches as well.
+ *
+ * Browsers only dispatch `storage` events to other tabs, so writes of the
+ * current tab never match.
+ *
+ * @param event - The storage event.
+ * @param storage - The storage of the lister.
+ * @param storageKey - The lister storage key.
+ * @param keys - Keys to watch, e.g. `["limit", "sorts"]`.
+ */
+export function isListerStorageEvent(
+    event: Pick<StorageEvent, "key" | "storageArea">,
+    storage: Storage | undefined,
+    storageKey: string,
+    keys: string[]
+): boolean {
+    if (!storage || !storageKey || event.storageArea !== storage) return false;
+    if (event.key === null) return true;
+
+    return keys.some(
+        (key) => event.key === namespaceKey(`${storageKey} lister ${key}`)
+    );
+}
+
+/**
+ * Subscription for `useSyncExternalStore` reads of persisted values that are
+ * refreshed by re-rendering (`useStorage` re-renders on changes). Reading
+ * storage this way lets server snapshots be used while hydrating.
+ *
+ * @returns An unsubscribe function that does nothing.
+ */
+export function noSubscribe(): () => void {
+    return () => undefined;
+}
+
+/** Namespaces a storage key like `useStorage`. */
+function namespaceKey(key: string): string {
+    return key.trim().replace(/\s+/g, "::").replace(/(::)+/g, "::");
+}
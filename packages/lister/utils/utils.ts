@@ -28,11 +28,12 @@ export function isSortType(v: unknown): v is SortType {
  *
  * - `null` and `undefined` become the literal token `[null]`
  * - All other values are stringified and URI-encoded
+ * - `~` is escaped to never clash with encoded operators
  */
 export function encodeValue(v: PrimitiveType): string {
     return v == null
         ? encodeURIComponent("[null]")
-        : encodeURIComponent(String(v));
+        : encodeURIComponent(String(v)).replace(/~/g, "%7E");
 }
 
 /** Decodes a previously encoded primitive string value. */
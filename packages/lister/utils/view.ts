@@ -0,0 +1,72 @@
+import { isArray, isObject, isString } from "../../utils";
+import type { ListerParams, ListerView } from "../types";
+import { encode } from "./encoder";
+
+/**
+ * Encodes the params stored by a view.
+ *
+ * Only `limit`, `search`, `sorts` and `filters` are kept; `page` and `cursor`
+ * are dropped so views always open on the first chunk.
+ *
+ * @param params - Lister params.
+ * @returns The encoded query string.
+ */
+export function encodeView(params: ListerParams): string {
+    return encode({ ...params, page: 0, cursor: "" });
+}
+
+/**
+ * Extracts the query string of a shared view link.
+ *
+ * Accepts a full link, a query string with or without leading `?`, or a bare
+ * encoded query. The result is normalized through {@link encodeView}.
+ *
+ * @param link - Shared link or query string.
+ * @param decode - Decodes the query into lister params.
+ */
+export function parseViewLink(
+    link: string,
+    decode: (query: string) => ListerParams
+): string {
+    const query = link.slice(link.indexOf("?") + 1).split("#")[0] ?? "";
+    return encodeView(decode(query));
+}
+
+/**
+ * Parses stored views, dropping malformed entries.
+ *
+ * @param raw - Stored JSON string.
+ */
+export function parseViews(raw: string | undefined): ListerView[] {
+    if (!raw) return [];
+
+    try {
+        const views: unknown = JSON.parse(raw);
+        if (!isArray(views)) return [];
+
+        return views.filter(
+            (v): v is ListerView =>
+                isObject<Record<string, unknown>>(v) &&
+                isString(v.name) &&
+                v.name.trim() !== "" &&
+                isString(v.query)
+        );
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Adds or replaces a view by name, preserving the order of existing views.
+ *
+ * @param views - Current views.
+ * @param view - View to store.
+ */
+export function upsertView(
+    views: ListerView[],
+    view: ListerView
+): ListerView[] {
+    return views.some((v) => v.name === view.name)
+        ? views.map((v) => (v.name === view.name ? view : v))
+        : [...views, view];
+}
@@ -113,3 +113,32 @@ export function mapValue(
 ): string {
     return replacements[v] ?? replacements["*"] ?? v;
 }
+
+/**
+ * Normalizes text for search and comparison.
+ *
+ * - Unifies Arabic and Persian letter variants (e.g. `ي` → `ی`, `ك` → `ک`, `ة` →
+ *   `ه`, `أ` → `ا`).
+ * - Converts Persian and Arabic digits to Latin digits.
+ * - Removes diacritics, tatweel and zero-width characters.
+ * - Lower-cases, trims and collapses repeated whitespace.
+ *
+ * @param v - The value to normalize; nullish values become an empty string.
+ * @returns The normalized string.
+ */
+export function normalizeText(v: unknown): string {
+    if (v == null) return "";
+
+    return String(v)
+        .replace(/[\u064B-\u065F\u0670\u0640\u200B-\u200F\uFEFF]/g, "")
+        .replace(/[يى]/g, "ی")
+        .replace(/ك/g, "ک")
+        .replace(/ة/g, "ه")
+        .replace(/[أإآٱ]/g, "ا")
+        .replace(/ؤ/g, "و")
+        .replace(/[\u06F0-\u06F9]/g, (d) => String(d.charCodeAt(0) - 0x06f0))
+        .replace(/[\u0660-\u0669]/g, (d) => String(d.charCodeAt(0) - 0x0660))
+        .toLowerCase()
+        .replace(/\s+/g, " ")
+        .trim();
+}
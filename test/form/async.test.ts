@@ -0,0 +1,18 @@
+import { describe, expect, it } from "vitest";
+import { resolveAsyncResult } from "../../packages/form/utils";
+
+describe("resolveAsyncResult", () => {
+    it("normalizes failed rules", () => {
+        expect(resolveAsyncResult("taken")).toEqual({ rule: "taken" });
+        expect(
+            resolveAsyncResult({ rule: "taken", message: "Already taken" })
+        ).toEqual({ rule: "taken", message: "Already taken" });
+    });
+
+    it("treats empty results as valid", () => {
+        expect(resolveAsyncResult(undefined)).toBeUndefined();
+        expect(resolveAsyncResult(null)).toBeUndefined();
+        expect(resolveAsyncResult("")).toBeUndefined();
+        expect(resolveAsyncResult({ rule: " " })).toBeUndefined();
+    });
+});
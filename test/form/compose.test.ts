@@ -0,0 +1,172 @@
+import { describe, expect, it } from "vitest";
+import {
+    array,
+    date,
+    mixed,
+    number,
+    object,
+    ref,
+    string,
+    ValidationError,
+    type Schema,
+} from "yup";
+import type { FieldContext } from "../../packages/form/types";
+import {
+    composeParsed,
+    composeSchema,
+    itemFields,
+    resolveSchemaDeps,
+    siblingPath,
+} from "../../packages/form/utils";
+
+const field = (
+    value: unknown,
+    schema: Schema = mixed(),
+    extra: Partial<FieldContext> = {}
+): FieldContext => ({
+    id: "id",
+    value,
+    touched: false,
+    schema,
+    query: "absolute",
+    ...extra,
+});
+
+const paths = async (schema: Schema, value: unknown) => {
+    try {
+        await schema.validate(value, { abortEarly: false });
+        return [];
+    } catch (e) {
+        return e instanceof ValidationError ? e.inner.map((i) => i.path) : [];
+    }
+};
+
+describe("composeSchema", () => {
+    it("nests dot-path fields", async () => {
+        const schema = composeSchema(
+            new Map([
+                ["name", field("", string().required())],
+                ["address.city", field("", string().required())],
+            ])
+        );
+
+        expect(
+            await paths(schema, { name: "", address: { city: "" } })
+        ).toEqual(["name", "address.city"]);
+    });
+
+    it("composes field arrays as array schemas", async () => {
+        const item = object({ name: string().required() });
+        const schema = composeSchema(
+            new Map([
+                ["items", field([], array().min(3).of(item), { list: true })],
+                ["items.0.name", field("a", string())],
+            ])
+        );
+
+        // Items without registered fields are validated too
+        expect(
+            await paths(schema, { items: [{ name: "a" }, { name: "" }] })
+        ).toEqual(["items[1].name", "items"]);
+        expect(
+            await schema.validateAt("items[1].name", {
+                items: [{ name: "a" }, { name: "b" }],
+            })
+        ).toBe("b");
+    });
+
+    it("accepts empty field arrays", async () => {
+        const schema = composeSchema(
+            new Map([
+                ["items", field([], array().of(string()), { list: true })],
+            ])
+        );
+
+        expect(await paths(schema, { items: [] })).toEqual([]);
+    });
+
+    it("composes indexed fields outside of field arrays", async () => {
+        const schema = composeSchema(
+            new Map([["tags.0", field("", string().required())]])
+        );
+
+        expect(await paths(schema, { tags: [""] })).toEqual(["tags[0]"]);
+    });
+});
+
+describe("composeParsed", () => {
+    it("nests parsed values", () => {
+        expect(
+            composeParsed(
+                new Map([
+                    ["age", field("20", number(), { parse: Number })],
+                    ["address.city", field("Tehran")],
+                ])
+            )
+        ).toEqual({ age: 20, address: { city: "Tehran" } });
+    });
+
+    it("composes field arrays from their item fields", () => {
+        expect(
+            composeParsed(
+                new Map([
+                    ["items", field(["k1", "k2"], array(), { list: true })],
+                    ["items.0.name", field("a")],
+                    ["items.1.name", field("b")],
+                    ["tags", field([], array(), { list: true })],
+                ])
+            )
+        ).toEqual({ items: [{ name: "a" }, { name: "b" }], tags: [] });
+    });
+});
+
+describe("itemFields", () => {
+    it("resolves object item keys", () => {
+        const name = string();
+        const qty = number();
+
+        expect(
+            itemFields("items", 1, { name: "a" }, object({ name, qty }))
+        ).toEqual([
+            ["items.1.name", "a", name],
+            ["items.1.qty", 0, qty],
+        ]);
+    });
+
+    it("resolves primitive items", () => {
+        const schema = string();
+        expect(itemFields("tags", 0, "x", schema)).toEqual([
+            ["tags.0", "x", schema],
+        ]);
+    });
+});
+
+describe("siblingPath", () => {
+    it("resolves keys against the parent path", () => {
+        expect(siblingPath("password", "confirm")).toBe("confirm");
+        expect(siblingPath("address.city", "country")).toBe("address.country");
+        expect(siblingPath("items[0].end", "start")).toBe("items.0.start");
+    });
+});
+
+describe("resolveSchemaDeps", () => {
+    it("collects when and ref keys", () => {
+        expect(
+            resolveSchemaDeps(
+                string().when("country", {
+                    is: "IR",
+                    then: (s) => s.required(),
+                })
+            )
+        ).toEqual(["country"]);
+        expect(resolveSchemaDeps(string().oneOf([ref("password")]))).toEqual([
+            "password",
+        ]);
+        expect(resolveSchemaDeps(date().min(ref("start")))).toEqual(["start"]);
+    });
+
+    it("ignores context references", () => {
+        expect(resolveSchemaDeps(number().max(ref("$limit")))).toEqual([]);
+        expect(resolveSchemaDeps(string())).toEqual([]);
+    });
+});
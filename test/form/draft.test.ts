@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { createMemoryStorage } from "../../packages/lister/utils";
+import {
+    isDraftable,
+    readDraft,
+    resolveDraftStorage,
+    writeDraft,
+} from "../../packages/form/utils";
+
+describe("resolveDraftStorage", () => {
+    it("resolves storage options", () => {
+        const storage = createMemoryStorage();
+        expect(resolveDraftStorage(storage)).toBe(storage);
+    });
+
+    it("skips browser storages outside of the browser", () => {
+        expect(resolveDraftStorage("local")).toBeUndefined();
+        expect(resolveDraftStorage("session")).toBeUndefined();
+    });
+});
+
+describe("readDraft and writeDraft", () => {
+    it("round-trips values", () => {
+        const storage = createMemoryStorage();
+        const values = { name: "Ali", "address.city": "Tehran" };
+
+        expect(writeDraft(storage, "draft", 1, values)).toBe(true);
+        expect(readDraft(storage, "draft", 1)).toEqual(values);
+    });
+
+    it("removes drafts without values", () => {
+        const storage = createMemoryStorage();
+        writeDraft(storage, "draft", 1, { name: "Ali" });
+        writeDraft(storage, "draft", 1, {});
+
+        expect(storage.getItem("draft")).toBeNull();
+    });
+
+    it("discards drafts of other versions", () => {
+        const storage = createMemoryStorage();
+        writeDraft(storage, "draft", 1, { name: "Ali" });
+
+        expect(readDraft(storage, "draft", 2)).toEqual({});
+        expect(storage.getItem("draft")).toBeNull();
+    });
+
+    it("ignores malformed drafts", () => {
+        const storage = createMemoryStorage();
+        storage.setItem("draft", "{invalid");
+        expect(readDraft(storage, "draft", 1)).toEqual({});
+
+        storage.setItem("draft", JSON.stringify({ version: 1, values: 1 }));
+        expect(readDraft(storage, "draft", 1)).toEqual({});
+    });
+
+    it("handles missing storage", () => {
+        expect(readDraft(undefined, "draft", 1)).toEqual({});
+        expect(writeDraft(undefined, "draft", 1, { name: "Ali" })).toBe(false);
+    });
+});
+
+describe("isDraftable", () => {
+    it("accepts json values", () => {
+        expect(isDraftable("a")).toBe(true);
+        expect(isDraftable(null)).toBe(true);
+        expect(isDraftable({ tags: ["a"], address: { city: "x" } })).toBe(true);
+    });
+
+    it("rejects files and functions at any depth", () => {
+        const blob = new Blob(["a"]);
+
+        expect(isDraftable(blob)).toBe(false);
+        expect(isDraftable({ files: [blob] })).toBe(false);
+        expect(isDraftable(() => undefined)).toBe(false);
+        expect(isDraftable({ id: Symbol("id") })).toBe(false);
+    });
+});
@@ -0,0 +1,147 @@
+import { describe, expect, it, vi } from "vitest";
+import { ValidationError } from "yup";
+import { createErrorStore } from "../../packages/form/stores/errors";
+
+const keys = (store: ReturnType<typeof createErrorStore>) =>
+    Array.from(store.getErrors().keys()).sort();
+
+describe("createErrorStore", () => {
+    it("aggregates errors under root and wildcard paths", () => {
+        const store = createErrorStore();
+        store.invalidate("users[0].email", "email");
+
+        expect(keys(store)).toEqual([
+            "users",
+            "users.*.email",
+            "users.0.email",
+        ]);
+        expect(store.getSnapshot("users.1.email", "absolute")).toEqual({
+            email: { fixed: false, message: "email" },
+        });
+        expect(store.getSnapshot("users.2.name")).toEqual({
+            email: { fixed: false, message: "email" },
+        });
+    });
+
+    it("rebuilds aggregated errors when nested errors are cleared", () => {
+        const store = createErrorStore();
+        store.invalidate("address.city", "required");
+        store.invalidate("address.zip", "required");
+
+        store.clear("address.city");
+        expect(keys(store)).toEqual(["address", "address.zip"]);
+
+        store.clear("address.zip");
+        expect(keys(store)).toEqual([]);
+    });
+
+    it("keeps explicit messages", () => {
+        const store = createErrorStore();
+        store.invalidate("name", "taken", " Already taken ");
+
+        expect(store.getSnapshot("name")).toEqual({
+            taken: { fixed: true, message: "Already taken" },
+        });
+    });
+
+    it("reuses unchanged field errors and notifies affected paths", () => {
+        const store = createErrorStore();
+        store.invalidate("name", "required");
+        const before = store.getSnapshot("name");
+
+        const name = vi.fn();
+        const email = vi.fn();
+        store.subscribe("name", name);
+        store.subscribe("email", email);
+        store.invalidate("email", "email");
+
+        expect(store.getSnapshot("name")).toBe(before);
+        expect(name).not.toHaveBeenCalled();
+        expect(email).toHaveBeenCalledTimes(1);
+    });
+
+    it("replaces only the given paths on parseForm", () => {
+        const store = createErrorStore();
+        store.invalidate("name", "required");
+        store.invalidate("address.city", "required");
+
+        store.parseForm(new ValidationError("min", undefined, "address.zip"), [
+            "address",
+        ]);
+
+        expect(keys(store)).toEqual(["address", "address.zip", "name"]);
+        expect(store.getSnapshot("address")).toEqual({
+            min: { fixed: false, message: "min" },
+        });
+
+        store.parseForm(null, ["address"]);
+        expect(keys(store)).toEqual(["name"]);
+    });
+});
+
+describe("parseForm", () => {
+    it("drops root entries of revalidated nested fields", () => {
+        const store = createErrorStore();
+        store.parseForm(
+            new ValidationError([
+                new ValidationError("required", undefined, "address.city"),
+                new ValidationError("required", undefined, "email"),
+            ]),
+            ["address", "email"]
+        );
+        expect(keys(store)).toEqual(["address", "address.city", "email"]);
+
+        // A passing step validation clears the whole step
+        store.parseForm(null, ["address", "email"]);
+        expect(store.getErrors().size).toBe(0);
+    });
+});
+
+describe("reindex", () => {
+    it("moves item errors to their new indexes", () => {
+        const store = createErrorStore();
+        store.invalidate("items.0.name", "required");
+        store.invalidate("items.1.qty", "min");
+        store.invalidate("items.2", "invalid");
+
+        store.reindex("items", (i) => [1, 0, 2][i]);
+
+        expect(store.getSnapshot("items.1.name", "absolute")).toHaveProperty(
+            "required"
+        );
+        expect(store.getErrors().get("items.0.qty")).toHaveProperty("min");
+        expect(store.getErrors().get("items.2")).toHaveProperty("invalid");
+        expect(store.getErrors().has("items.0.name")).toBe(false);
+    });
+
+    it("drops errors of removed items", () => {
+        const store = createErrorStore();
+        store.invalidate("items.0.name", "required");
+        store.invalidate("items.1.name", "min");
+
+        store.reindex("items", (i) => (i === 0 ? undefined : i - 1));
+
+        expect(keys(store)).toEqual(["items", "items.*.name", "items.0.name"]);
+        expect(store.getErrors().get("items.0.name")).toHaveProperty("min");
+
+        store.reindex("items", () => undefined);
+        expect(keys(store)).toEqual([]);
+    });
+
+    it("keeps errors outside of the list", () => {
+        const store = createErrorStore();
+        store.invalidate("items", "min");
+        store.invalidate("itemsCount", "required");
+        store.invalidate("items.0.name", "required");
+
+        store.reindex("items", (i) => i + 1);
+
+        expect(keys(store)).toEqual([
+            "items",
+            "items.*.name",
+            "items.1.name",
+            "itemsCount",
+        ]);
+        expect(store.getSnapshot("items", "absolute")).toHaveProperty("min");
+    });
+});
@@ -0,0 +1,171 @@
+import { describe, expect, it, vi } from "vitest";
+import { mixed } from "yup";
+import { createFieldStore } from "../../packages/form/stores/fields";
+import type { FieldContext } from "../../packages/form/types";
+
+const field = (value: unknown): FieldContext => ({
+    id: String(value),
+    value,
+    initial: value,
+    touched: false,
+    schema: mixed(),
+    query: "absolute",
+});
+
+describe("reindex", () => {
+    it("moves item fields to their new indexes", () => {
+        const store = createFieldStore();
+        store.register("items.0.name", field("a"));
+        store.register("items.1.name", field("b"));
+        store.register("items.2.name", field("c"));
+
+        store.reindex("items", (i) => (i === 1 ? undefined : i > 1 ? 0 : 1));
+
+        expect(store.getField("items.0.name")?.value).toBe("c");
+        expect(store.getField("items.1.name")?.value).toBe("a");
+        expect(store.getField("items.2.name")).toBeUndefined();
+    });
+
+    it("keeps fields outside of the list", () => {
+        const store = createFieldStore();
+        store.register("items", field([]));
+        store.register("itemsCount", field(1));
+        store.register("items.0", field("a"));
+
+        store.reindex("items", (i) => i + 1);
+
+        expect(Array.from(store.getFields().keys()).sort()).toEqual([
+            "items",
+            "items.1",
+            "itemsCount",
+        ]);
+    });
+
+    it("notifies subscribers", () => {
+        const store = createFieldStore();
+        store.register("items.0", field("a"));
+        const fn = vi.fn();
+        store.subscribe("items.0", fn);
+
+        store.reindex("items", () => undefined);
+
+        expect(fn).toHaveBeenCalled();
+        expect(store.getSnapshot("items.0")).toBeUndefined();
+    });
+});
+
+describe("restore", () => {
+    it("restores registered and later registered fields", () => {
+        const store = createFieldStore();
+        store.register("name", field("a"));
+        const fn = vi.fn();
+        store.subscribe("name", fn);
+
+        store.restore({ name: "b", email: "x" });
+        store.register("email", field(""));
+
+        expect(fn).toHaveBeenCalled();
+        expect(store.getField("name")).toMatchObject({
+            value: "b",
+            initial: "a",
+            touched: false,
+        });
+        expect(store.getField("email")?.value).toBe("x");
+    });
+
+    it("never restores sensitive fields", () => {
+        const store = createFieldStore();
+        store.register("password", { ...field(""), sensitive: true });
+        store.restore({ password: "secret", token: "secret" });
+        store.register("token", { ...field(""), sensitive: true });
+
+        expect(store.getField("password")?.value).toBe("");
+        expect(store.getField("token")?.value).toBe("");
+    });
+
+    it("stops restoring after a reset", () => {
+        const store = createFieldStore();
+        store.restore({ name: "b" });
+        store.reset({});
+        store.register("name", field("a"));
+
+        expect(store.getField("name")?.value).toBe("a");
+    });
+});
+
+describe("computed fields", () => {
+    const computed = (
+        from: string[],
+        compute: (values: unknown[]) => unknown
+    ): FieldContext => ({
+        ...field(undefined),
+        computedFrom: from,
+        compute,
+    });
+
+    const sum = (values: unknown[]) =>
+        values.reduce<number>((total, v) => total + Number(v), 0);
+
+    it("recomputes when sources change", () => {
+        const store = createFieldStore();
+        store.register("qty", field(2));
+        store.register("price", field(10));
+        store.register("total", computed(["qty", "price"], sum));
+        store.register(
+            "doubled",
+            computed(["total"], ([v]) => Number(v) * 2)
+        );
+
+        expect(store.getField("total")?.value).toBe(12);
+
+        store.setValue("qty", 3);
+        expect(store.getField("total")?.value).toBe(13);
+        expect(store.getField("doubled")?.value).toBe(26);
+    });
+
+    it("ignores direct updates", () => {
+        const store = createFieldStore();
+        store.register(
+            "total",
+            computed([], () => 1)
+        );
+
+        store.setValue("total", 2);
+        expect(store.getField("total")?.value).toBe(1);
+    });
+
+    it("recomputes when sources or the compute function are replaced", () => {
+        const store = createFieldStore();
+        store.register("a", field(1));
+        store.register("b", field(5));
+        store.register("total", computed(["a"], sum));
+        store.register(
+            "doubled",
+            computed(["total"], ([v]) => Number(v) * 2)
+        );
+        const fn = vi.fn();
+        store.subscribe("total", fn);
+
+        store.setComputed("total", ["a", "b"], sum);
+        expect(store.getField("total")?.value).toBe(6);
+        expect(store.getField("doubled")?.value).toBe(12);
+        expect(fn).toHaveBeenCalledTimes(1);
+
+        store.setComputed("total", ["a", "b"], (values) => sum(values) * 10);
+        expect(store.getField("total")?.value).toBe(60);
+
+        store.setValue("b", 6);
+        expect(store.getField("total")?.value).toBe(70);
+    });
+
+    it("skips notifications when the value is unchanged", () => {
+        const store = createFieldStore();
+        store.register("a", field(1));
+        store.register("total", computed(["a"], sum));
+        const fn = vi.fn();
+        store.subscribe("total", fn);
+
+        store.setComputed("total", ["a"], (values) => sum(values));
+        expect(fn).not.toHaveBeenCalled();
+    });
+});
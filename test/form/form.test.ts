@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import { number, string } from "yup";
+import { createErrorStore } from "../../packages/form/stores/errors";
+import { createFieldStore } from "../../packages/form/stores/fields";
+import { createFormStore } from "../../packages/form/stores/form";
+import type { FieldContext } from "../../packages/form/types";
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 1));
+
+const field = (value: unknown, schema = string()): FieldContext => ({
+    id: "id",
+    value,
+    initial: value,
+    touched: false,
+    schema,
+    query: "absolute",
+});
+
+const setup = () => {
+    const fields = createFieldStore();
+    const errors = createErrorStore();
+    return { fields, errors, form: createFormStore(fields, errors) };
+};
+
+describe("createFormStore", () => {
+    it("tracks dirty and touched fields", () => {
+        const { fields, form } = setup();
+        fields.register("name", field("a"));
+
+        fields.setValue("name", "b");
+        expect(form.getSnapshot()).toMatchObject({
+            isDirty: true,
+            dirtyFields: ["name"],
+            isTouched: true,
+            touchedFields: ["name"],
+        });
+
+        fields.setValue("name", "a");
+        expect(form.getSnapshot()).toMatchObject({
+            isDirty: false,
+            dirtyFields: [],
+            isTouched: true,
+        });
+    });
+
+    it("refreshes after fields register", async () => {
+        const { fields, form } = setup();
+        await tick();
+        const before = form.getSnapshot();
+
+        fields.register("name", { ...field("a"), initial: undefined });
+        expect(form.getSnapshot()).toBe(before);
+
+        await tick();
+        expect(form.getSnapshot().dirtyFields).toEqual(["name"]);
+    });
+
+    it("is dirty after values are restored", () => {
+        const { fields, form } = setup();
+        fields.register("name", field("a"));
+
+        fields.restore({ name: "b" });
+        expect(form.getSnapshot()).toMatchObject({
+            isDirty: true,
+            dirtyFields: ["name"],
+            isTouched: false,
+        });
+    });
+
+    it("is invalid while untouched values fail their schemas", async () => {
+        const { fields, form } = setup();
+        fields.register("name", field("", string().required()));
+        fields.register("age", field(20, number().min(18)));
+        await tick();
+
+        expect(form.getSnapshot().isValid).toBe(false);
+
+        fields.setValue("name", "Ali");
+        await tick();
+        expect(form.getSnapshot().isValid).toBe(true);
+    });
+
+    it("is invalid while errors are reported", async () => {
+        const { fields, errors, form } = setup();
+        fields.register("name", field("Ali"));
+        await tick();
+        expect(form.getSnapshot().isValid).toBe(true);
+
+        errors.invalidate("name", "taken");
+        expect(form.getSnapshot().isValid).toBe(false);
+    });
+
+    it("applies status updates", () => {
+        const { form } = setup();
+        const error = new Error("network");
+        form.setStatus({ isSubmitting: true, submitCount: 1 });
+        form.setStatus({ submitError: error });
+
+        expect(form.getSnapshot()).toMatchObject({
+            isSubmitting: true,
+            submitCount: 1,
+            submitError: error,
+        });
+    });
+});
+
+describe("reset", () => {
+    it("keeps initial values by default", () => {
+        const { fields, form } = setup();
+        fields.register("name", field("a"));
+
+        fields.reset({ name: "b" });
+        expect(fields.getField("name")).toMatchObject({
+            value: "b",
+            initial: "a",
+        });
+        expect(form.getSnapshot().dirtyFields).toEqual(["name"]);
+
+        fields.resetField("name", undefined);
+        expect(fields.getField("name")?.value).toBe("a");
+    });
+
+    it("replaces initial values when asked", () => {
+        const { fields, form } = setup();
+        fields.register("name", field("a"));
+
+        fields.reset({ name: "b" }, true);
+        expect(fields.getField("name")?.initial).toBe("b");
+        expect(form.getSnapshot().isDirty).toBe(false);
+
+        fields.resetField("name", "c", true);
+        expect(fields.getField("name")?.initial).toBe("c");
+    });
+});
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import {
+    asteriskPath,
+    flatternPath,
+    formDataKey,
+    isWithinPath,
+    nestPaths,
+    readPath,
+    rootPath,
+    writePath,
+    yupPath,
+} from "../../packages/form/utils";
+
+describe("flatternPath", () => {
+    it("normalizes bracket and dot notation", () => {
+        expect(flatternPath("users[0].email")).toBe("users.0.email");
+        expect(flatternPath(" .address..city. ")).toBe("address.city");
+        expect(flatternPath("")).toBe("");
+    });
+
+    it("resolves root and wildcard paths", () => {
+        expect(rootPath("users[0].email")).toBe("users");
+        expect(asteriskPath("users.0.tags.1")).toBe("users.*.tags.*");
+    });
+});
+
+describe("isWithinPath", () => {
+    it("matches equal and nested paths only", () => {
+        expect(isWithinPath("address", ["address"])).toBe(true);
+        expect(isWithinPath("address.city", ["address"])).toBe(true);
+        expect(isWithinPath("address.city", ["name", "address.city"])).toBe(
+            true
+        );
+        expect(isWithinPath("addressLine", ["address"])).toBe(false);
+        expect(isWithinPath("address", ["address.city"])).toBe(false);
+    });
+});
+
+describe("readPath", () => {
+    it("reads nested objects and arrays", () => {
+        const source = { address: { city: "Tehran" }, items: [{ name: "a" }] };
+
+        expect(readPath(source, "address.city")).toBe("Tehran");
+        expect(readPath(source, "items.0.name")).toBe("a");
+        expect(readPath(source, "items[0].name")).toBe("a");
+    });
+
+    it("returns undefined for missing segments", () => {
+        expect(readPath({ address: null }, "address.city")).toBeUndefined();
+        expect(readPath({ name: "a" }, "name.length")).toBeUndefined();
+        expect(readPath(undefined, "name")).toBeUndefined();
+    });
+});
+
+describe("writePath", () => {
+    it("creates arrays for numeric segments", () => {
+        const target: Record<string, unknown> = {};
+        writePath(target, "items.1.name", "b");
+        writePath(target, "items.0.name", "a");
+
+        expect(target).toEqual({ items: [{ name: "a" }, { name: "b" }] });
+    });
+
+    it("copies existing objects and arrays", () => {
+        const address = { city: "Tehran" };
+        const items = [{ name: "a" }];
+        const target: Record<string, unknown> = { address, items };
+        writePath(target, "address.zip", "123");
+        writePath(target, "items.0.name", "b");
+
+        expect(target).toEqual({
+            address: { city: "Tehran", zip: "123" },
+            items: [{ name: "b" }],
+        });
+        expect(address).toEqual({ city: "Tehran" });
+        expect(items).toEqual([{ name: "a" }]);
+    });
+});
+
+describe("nestPaths", () => {
+    it("builds nested values from field paths", () => {
+        expect(
+            nestPaths([
+                ["name", "Ali"],
+                ["address.city", "Tehran"],
+                ["address.zip", "123"],
+                ["tags.0", "x"],
+            ])
+        ).toEqual({
+            name: "Ali",
+            address: { city: "Tehran", zip: "123" },
+            tags: ["x"],
+        });
+    });
+});
+
+describe("yupPath", () => {
+    it("converts numeric segments to brackets", () => {
+        expect(yupPath("items.0.name")).toBe("items[0].name");
+        expect(yupPath("tags.12")).toBe("tags[12]");
+        expect(yupPath("address.city")).toBe("address.city");
+    });
+});
+
+describe("formDataKey", () => {
+    it("converts paths to bracketed keys", () => {
+        expect(formDataKey("name")).toBe("name");
+        expect(formDataKey("address.city")).toBe("address[city]");
+        expect(formDataKey("items[0].name")).toBe("items[0][name]");
+    });
+});
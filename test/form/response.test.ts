@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { extractResponseErrors } from "../../packages/form/utils";
+
+describe("extractResponseErrors", () => {
+    it("reads errors of 422 responses", async () => {
+        const errors = { email: ["email"] };
+
+        await expect(
+            extractResponseErrors({ status: 422, data: { errors } })
+        ).resolves.toEqual(errors);
+        await expect(
+            extractResponseErrors({ response: { status: "422", data: errors } })
+        ).resolves.toEqual(errors);
+        await expect(
+            extractResponseErrors({ statusCode: 422, body: errors })
+        ).resolves.toEqual(errors);
+    });
+
+    it("reads fetch responses", async () => {
+        const response = new Response(
+            JSON.stringify({ errors: { name: { taken: "Taken" } } }),
+            { status: 422 }
+        );
+
+        await expect(extractResponseErrors(response)).resolves.toEqual({
+            name: { taken: "Taken" },
+        });
+        await expect(
+            extractResponseErrors(new Response("invalid", { status: 422 }))
+        ).resolves.toBeUndefined();
+    });
+
+    it("ignores fetch responses with consumed bodies", async () => {
+        const response = new Response(
+            JSON.stringify({ errors: { name: ["required"] } }),
+            { status: 422 }
+        );
+        await response.text();
+
+        await expect(extractResponseErrors(response)).resolves.toBeUndefined();
+    });
+
+    it("ignores other errors", async () => {
+        await expect(
+            extractResponseErrors({ status: 500, data: { errors: {} } })
+        ).resolves.toBeUndefined();
+        await expect(
+            extractResponseErrors({ status: 422, data: "invalid" })
+        ).resolves.toBeUndefined();
+        await expect(
+            extractResponseErrors(new Error("network"))
+        ).resolves.toBeUndefined();
+        await expect(extractResponseErrors(null)).resolves.toBeUndefined();
+    });
+});
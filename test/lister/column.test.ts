@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import type { SortType } from "../../packages/lister";
+import {
+    emptyColumnState,
+    moveColumn,
+    parseColumnState,
+    resolveColumns,
+    toggleSort,
+} from "../../packages/lister/utils";
+
+describe("toggleSort", () => {
+    it("cycles asc, desc and none", () => {
+        let sorts = toggleSort([], "name");
+        expect(sorts).toEqual([{ field: "name", order: "asc" }]);
+
+        sorts = toggleSort(sorts, "name");
+        expect(sorts).toEqual([{ field: "name", order: "desc" }]);
+
+        expect(toggleSort(sorts, "name")).toEqual([]);
+    });
+
+    it("replaces other rules in single mode", () => {
+        const sorts: SortType[] = [{ field: "name", order: "asc" }];
+        expect(toggleSort(sorts, "age")).toEqual([
+            { field: "age", order: "asc" },
+        ]);
+    });
+
+    it("keeps other rules in multi mode", () => {
+        let sorts: SortType[] = [{ field: "name", order: "asc" }];
+        sorts = toggleSort(sorts, "age", true);
+        expect(sorts).toEqual([
+            { field: "name", order: "asc" },
+            { field: "age", order: "asc" },
+        ]);
+
+        sorts = toggleSort(sorts, "name", true);
+        expect(sorts[0]).toEqual({ field: "name", order: "desc" });
+
+        expect(toggleSort(sorts, "name", true)).toEqual([
+            { field: "age", order: "asc" },
+        ]);
+    });
+});
+
+describe("moveColumn", () => {
+    it("moves ids", () => {
+        expect(moveColumn(["a", "b", "c"], "a", 2)).toEqual(["b", "c", "a"]);
+        expect(moveColumn(["a", "b", "c"], "c", -1)).toEqual(["c", "a", "b"]);
+        expect(moveColumn(["a"], "x", 0)).toEqual(["a"]);
+    });
+});
+
+describe("parseColumnState", () => {
+    it("drops malformed entries", () => {
+        const raw = JSON.stringify({
+            order: ["a", 1],
+            visibility: { a: false, b: "no" },
+            widths: { a: 120, b: -1 },
+        });
+        expect(parseColumnState(raw)).toEqual({
+            order: ["a"],
+            visibility: { a: false },
+            widths: { a: 120 },
+        });
+        expect(parseColumnState("{")).toEqual(emptyColumnState());
+    });
+});
+
+describe("resolveColumns", () => {
+    it("applies preferences and sort state", () => {
+        const columns = resolveColumns(
+            [
+                { id: "name", label: "Name", width: 100 },
+                { id: "email", label: "Email", visible: false },
+                { id: "age", label: "Age", field: "profile.age" },
+            ],
+            {
+                order: ["age", "unknown", "name"],
+                visibility: { email: true },
+                widths: { name: 200 },
+            },
+            [
+                { field: "name", order: "desc" },
+                { field: "profile.age", order: "asc" },
+            ]
+        );
+
+        expect(columns.map((c) => c.id)).toEqual(["age", "name", "email"]);
+        expect(columns[0]).toMatchObject({ order: "asc", sortIndex: 1 });
+        expect(columns[1]).toMatchObject({ width: 200, order: "desc" });
+        expect(columns[2]).toMatchObject({ visible: true, sortIndex: -1 });
+    });
+});
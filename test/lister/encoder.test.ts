@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { decode, encode } from "../../packages/lister/utils";
+
+describe("encode", () => {
+    it("omits empty values", () => {
+        expect(
+            encode({ page: 0, limit: 0, search: "", sorts: [], filters: {} })
+        ).toBe("");
+    });
+
+    it("encodes cursor when present", () => {
+        const encoded = encode({
+            page: 1,
+            limit: 10,
+            search: "",
+            sorts: [],
+            filters: {},
+            cursor: "abc",
+        });
+        expect(encoded).toBe("page=1&limit=10&cursor=abc");
+    });
+});
+
+describe("decode", () => {
+    it("round trips params", () => {
+        const params = {
+            page: 2,
+            limit: 20,
+            search: "john",
+            sorts: [{ field: "name", order: "asc" as const }],
+            filters: { active: true, tags: ["a", "b"] },
+            cursor: "xyz",
+        };
+        expect(decode(encode(params))).toEqual(params);
+    });
+
+    it("does not treat cursor as filter", () => {
+        expect(decode("cursor=abc").filters).toEqual({});
+    });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import type { Fetcher, ListerParams } from "../../packages/lister";
+import {
+    encodeCsvCell,
+    encodeCsvRows,
+    exportRecords,
+} from "../../packages/lister/utils";
+
+const params: ListerParams = {
+    page: 3,
+    limit: 2,
+    search: "",
+    sorts: [],
+    filters: {},
+};
+
+const rows = [
+    { name: "علی", city: { name: "Tehran" } },
+    { name: "Sara, Jr.", city: { name: "Shiraz" } },
+    { name: "=cmd", city: { name: 'The "City"' } },
+];
+
+const fetcher: Fetcher = (p) =>
+    Promise.resolve({
+        data: rows.slice((p.page - 1) * p.limit, p.page * p.limit),
+        total: rows.length,
+    });
+
+describe("encodeCsvCell", () => {
+    it("escapes cells", () => {
+        expect(encodeCsvCell("a,b")).toBe('"a,b"');
+        expect(encodeCsvCell('a "b"')).toBe('"a ""b"""');
+        expect(encodeCsvCell("a\nb")).toBe('"a\nb"');
+        expect(encodeCsvCell(null)).toBe("");
+        expect(encodeCsvCell(-5)).toBe("-5");
+        expect(encodeCsvCell("=SUM(A1)")).toBe("'=SUM(A1)");
+        expect(encodeCsvCell("a;b", ";")).toBe('"a;b"');
+    });
+});
+
+describe("encodeCsvRows", () => {
+    it("maps records through columns", () => {
+        expect(
+            encodeCsvRows(rows.slice(0, 1), [
+                { label: "Name", value: "name" },
+                { label: "City", value: (r) => r.city.name },
+            ])
+        ).toBe("علی,Tehran\r\n");
+    });
+});
+
+describe("exportRecords", () => {
+    const columns = [
+        { label: "Name", value: "name" },
+        { label: "City", value: "city.name" },
+    ];
+
+    it("exports every page with BOM", async () => {
+        const progress: number[] = [];
+        const blob = await exportRecords({
+            params,
+            fetcher,
+            columns,
+            onProgress: ({ loaded }) => progress.push(loaded),
+        });
+
+        const bytes = new Uint8Array(await blob.arrayBuffer());
+        expect([...bytes.slice(0, 3)]).toEqual([0xef, 0xbb, 0xbf]);
+        expect(await blob.text()).toBe(
+            "Name,City\r\n" +
+                "علی,Tehran\r\n" +
+                '"Sara, Jr.",Shiraz\r\n' +
+                '\'=cmd,"The ""City"""\r\n'
+        );
+        expect(progress).toEqual([2, 3]);
+    });
+
+    it("follows cursors", async () => {
+        const cursorFetcher: Fetcher = (p) =>
+            Promise.resolve(
+                p.cursor
+                    ? { data: [rows[1]] }
+                    : { data: [rows[0]], nextCursor: "c2" }
+            );
+
+        const blob = await exportRecords({
+            params,
+            fetcher: cursorFetcher,
+            columns,
+        });
+        expect((await blob.text()).split("\r\n")).toHaveLength(4);
+    });
+
+    it("cancels with abort signal", async () => {
+        const controller = new AbortController();
+        const result = exportRecords({
+            params,
+            fetcher: (p) => {
+                controller.abort();
+                return fetcher(p, { signal: controller.signal });
+            },
+            columns,
+            signal: controller.signal,
+        });
+
+        await expect(result).rejects.toThrow();
+    });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+    createMemoryHistory,
+    readNamespace,
+    resolveHistoryMode,
+    writeNamespace,
+} from "../../packages/lister/utils";
+
+const params = { page: 1, limit: 10, search: "", sorts: [], filters: {} };
+
+describe("readNamespace", () => {
+    it("returns whole query without namespace", () => {
+        expect(readNamespace("?page=2&q=a", "")).toBe("page=2&q=a");
+    });
+
+    it("extracts namespaced keys", () => {
+        expect(readNamespace("?a.page=2&b.page=3&x=1", "a")).toBe("page=2");
+    });
+});
+
+describe("writeNamespace", () => {
+    it("replaces whole query without namespace", () => {
+        expect(writeNamespace("x=1", "page=2", "")).toBe("page=2");
+    });
+
+    it("keeps keys of other namespaces", () => {
+        expect(writeNamespace("a.page=2&b.page=3", "page=4", "a")).toBe(
+            "b.page=3&a.page=4"
+        );
+    });
+});
+
+describe("resolveHistoryMode", () => {
+    it("pushes when a push field changes", () => {
+        expect(
+            resolveHistoryMode(params, { ...params, page: 2 }, { page: "push" })
+        ).toBe("push");
+    });
+
+    it("replaces when only replace fields change", () => {
+        expect(
+            resolveHistoryMode(
+                params,
+                { ...params, search: "a" },
+                { page: "push" }
+            )
+        ).toBe("replace");
+    });
+});
+
+describe("createMemoryHistory", () => {
+    it("pushes and replaces entries", () => {
+        const history = createMemoryHistory("?page=1");
+        history.write("page=2", "push");
+        history.write("page=2&search=a", "replace");
+        expect(history.entries()).toEqual(["page=1", "page=2&search=a"]);
+        expect(history.read()).toBe("page=2&search=a");
+    });
+
+    it("navigates back and forward", () => {
+        const history = createMemoryHistory();
+        const fn = vi.fn();
+        history.subscribe(fn);
+        history.write("page=2", "push");
+
+        history.back();
+        expect(history.read()).toBe("");
+        history.forward();
+        expect(history.read()).toBe("page=2");
+        expect(fn).toHaveBeenCalledTimes(2);
+    });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import type { ListerParams } from "../../packages/lister";
+import {
+    createOperator,
+    matchFilter,
+    queryRecords,
+    searchRecords,
+    sortRecords,
+} from "../../packages/lister/utils";
+
+const users = [
+    { id: 1, name: "علي كريمي", age: 30, city: { name: "Tehran" } },
+    { id: 2, name: "Sara Ahmadi", age: 25, city: { name: "Shiraz" } },
+    { id: 3, name: "Reza Karimi", age: 40, city: { name: "Tehran" } },
+    { id: 4, name: "Mina", age: null, city: { name: "Tabriz" } },
+];
+
+const params = (v: Partial<ListerParams>): ListerParams => ({
+    page: 1,
+    limit: 20,
+    search: "",
+    sorts: [],
+    filters: {},
+    ...v,
+});
+
+describe("searchRecords", () => {
+    it("normalizes persian and arabic characters", () => {
+        expect(searchRecords(users, "علی کریمی", ["name"])).toEqual([users[0]]);
+    });
+
+    it("requires every term and supports accessors", () => {
+        expect(
+            searchRecords(users, "karimi tehran", ["name", (u) => u.city.name])
+        ).toEqual([users[2]]);
+        expect(searchRecords(users, "sara")).toEqual([users[1]]);
+    });
+});
+
+describe("sortRecords", () => {
+    it("sorts by multiple fields with nullish last", () => {
+        const sorted = sortRecords(users, [
+            { field: "city.name", order: "desc" },
+            { field: "age", order: "asc" },
+        ]);
+        expect(sorted.map((u) => u.id)).toEqual([1, 3, 4, 2]);
+        expect(
+            sortRecords(users, [{ field: "age", order: "asc" }]).map(
+                (u) => u.id
+            )
+        ).toEqual([2, 1, 3, 4]);
+    });
+});
+
+describe("matchFilter", () => {
+    it("matches filter shapes", () => {
+        expect(matchFilter(30, "30")).toBe(true);
+        expect(matchFilter("a", ["a", "b"])).toBe(true);
+        expect(matchFilter(["x", "y"], "y")).toBe(true);
+        expect(matchFilter(30, { min: 20, max: 30 })).toBe(true);
+        expect(matchFilter(31, { min: 20, max: 30 })).toBe(false);
+        expect(matchFilter({ name: "Tehran" }, { name: "tehran" })).toBe(true);
+    });
+
+    it("matches operators", () => {
+        expect(matchFilter(30, createOperator("between", 20, 30))).toBe(true);
+        expect(matchFilter(30, createOperator("gt", 30))).toBe(false);
+        expect(matchFilter("b", createOperator("nin", "a", "c"))).toBe(true);
+        expect(matchFilter(null, createOperator("null"))).toBe(true);
+        expect(
+            matchFilter("2024-02-01", createOperator("lte", "2024-01-31"))
+        ).toBe(false);
+    });
+});
+
+describe("queryRecords", () => {
+    it("filters, sorts and paginates", () => {
+        const result = queryRecords(
+            users,
+            params({
+                page: 2,
+                limit: 1,
+                filters: { "city.name": "Tehran" },
+                sorts: [{ field: "age", order: "desc" }],
+            })
+        );
+        expect(result.records).toEqual([users[0]]);
+        expect(result).toMatchObject({ total: 2, pages: 2, from: 2, to: 2 });
+    });
+
+    it("returns empty bounds for out of range pages", () => {
+        const result = queryRecords(users, params({ page: 5, limit: 2 }));
+        expect(result).toMatchObject({ total: 4, pages: 2, from: 0, to: 0 });
+    });
+});
@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import {
+    insertRecordAt,
+    removeRecordAt,
+    replaceRecordAt,
+} from "../../packages/lister/utils";
+
+const result = {
+    records: ["a", "b", "c"],
+    total: 13,
+    limit: 10,
+    pages: 2,
+    from: 11,
+    to: 13,
+};
+
+describe("record mutations", () => {
+    it("replaces records", () => {
+        expect(replaceRecordAt(result, 1, "x").records).toEqual([
+            "a",
+            "x",
+            "c",
+        ]);
+        expect(replaceRecordAt(result, 5, "x")).toBe(result);
+    });
+
+    it("removes records and adjusts bounds", () => {
+        expect(removeRecordAt(result, 0)).toEqual({
+            records: ["b", "c"],
+            total: 12,
+            limit: 10,
+            pages: 2,
+            from: 11,
+            to: 12,
+        });
+        expect(removeRecordAt(result, -1)).toBe(result);
+
+        const single = {
+            records: ["a"],
+            total: 1,
+            limit: 10,
+            pages: 1,
+            from: 1,
+            to: 1,
+        };
+        expect(removeRecordAt(single, 0)).toEqual({
+            records: [],
+            total: 0,
+            limit: 10,
+            pages: 0,
+            from: 0,
+            to: 0,
+        });
+    });
+
+    it("inserts records and adjusts bounds", () => {
+        expect(insertRecordAt(result, 0, "x")).toEqual({
+            records: ["x", "a", "b", "c"],
+            total: 14,
+            limit: 10,
+            pages: 2,
+            from: 11,
+            to: 14,
+        });
+        expect(insertRecordAt(result, 99, "x").records).toEqual([
+            "a",
+            "b",
+            "c",
+            "x",
+        ]);
+
+        const empty = {
+            records: [],
+            total: 0,
+            limit: 10,
+            pages: 0,
+            from: 0,
+            to: 0,
+        };
+        expect(insertRecordAt(empty, 0, "x")).toEqual({
+            records: ["x"],
+            total: 1,
+            limit: 10,
+            pages: 1,
+            from: 1,
+            to: 1,
+        });
+    });
+
+    it("updates pages across page boundaries", () => {
+        const last = { records: ["u"], limit: 10, from: 21, to: 21 };
+        expect(
+            removeRecordAt({ ...last, total: 21, pages: 3 }, 0)
+        ).toMatchObject({ total: 20, pages: 2 });
+
+        const full = {
+            records: Array.from({ length: 10 }, (_, i) => String(i)),
+            total: 20,
+            limit: 10,
+            pages: 2,
+            from: 11,
+            to: 20,
+        };
+        expect(insertRecordAt(full, 0, "x")).toMatchObject({
+            total: 21,
+            pages: 3,
+            from: 11,
+            to: 21,
+        });
+    });
+
+    it("keeps pages without a limit", () => {
+        const unlimited = { ...result, limit: 0, pages: 1 };
+        expect(removeRecordAt(unlimited, 0).pages).toBe(1);
+    });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import {
+    createOperator,
+    dateRange,
+    decode,
+    decodeOperator,
+    encode,
+    encodeOperator,
+    isFilterOperator,
+} from "../../packages/lister/utils";
+import type { FilterSchema } from "../../packages/lister";
+
+describe("isFilterOperator", () => {
+    it("validates operator arity", () => {
+        expect(isFilterOperator(createOperator("between", 1, 2))).toBe(true);
+        expect(isFilterOperator(createOperator("between", 1))).toBe(false);
+        expect(isFilterOperator(createOperator("null"))).toBe(true);
+        expect(isFilterOperator(createOperator("in"))).toBe(false);
+        expect(isFilterOperator({ op: "like", value: ["a"] })).toBe(false);
+    });
+});
+
+describe("encodeOperator", () => {
+    it("roundtrips operands with reserved characters", () => {
+        const operator = createOperator("in", "a,b", "x:y", "(z)", "~w");
+        const encoded = encodeOperator(operator);
+
+        expect(encoded.startsWith("~in(")).toBe(true);
+        expect(decodeOperator(encoded)).toEqual(operator);
+    });
+
+    it("keeps string operands lossless", () => {
+        const operator = createOperator("eq", "007");
+        expect(decodeOperator(encodeOperator(operator))).toEqual(operator);
+        expect(decodeOperator("~gt(7)")).toEqual(createOperator("gt", 7));
+    });
+
+    it("rejects invalid operators", () => {
+        expect(decodeOperator("~between(1)")).toBeUndefined();
+        expect(decodeOperator("~like(a)")).toBeUndefined();
+        expect(decodeOperator("between(1,2)")).toBeUndefined();
+    });
+});
+
+describe("encode/decode", () => {
+    it("roundtrips operator filters", () => {
+        const filters = {
+            price: createOperator("between", 10, 20),
+            deleted: createOperator("null"),
+            name: "~plain",
+        };
+        const decoded = decode(encode({ filters }));
+
+        expect(decoded.filters).toEqual(filters);
+    });
+
+    it("coerces operators against schema", () => {
+        const schema: FilterSchema = {
+            code: { type: "string", shape: "operator" },
+            price: {
+                type: "number",
+                shape: "operator",
+                operators: ["gte", "lte"],
+            },
+        };
+
+        const query = encode({
+            filters: {
+                code: createOperator("in", "007", "true"),
+                price: createOperator("gte", 5),
+            },
+        });
+        expect(decode(query, schema).filters).toEqual({
+            code: createOperator("in", "007", "true"),
+            price: createOperator("gte", 5),
+        });
+
+        const invalid = encode({
+            filters: { price: createOperator("between", 1, 2) },
+        });
+        expect(decode(invalid, schema).filters).toEqual({});
+    });
+});
+
+describe("dateRange", () => {
+    it("creates bounds from gregorian dates", () => {
+        expect(dateRange("2024-02-01", "2024-01-01")).toEqual(
+            createOperator("between", "2024-01-01", "2024-02-01")
+        );
+        expect(dateRange("2024-01-01")).toEqual(
+            createOperator("gte", "2024-01-01")
+        );
+        expect(dateRange(undefined, "2024-01-01")).toEqual(
+            createOperator("lte", "2024-01-01")
+        );
+        expect(dateRange("", "2024-13-45")).toBeUndefined();
+    });
+
+    it("converts jalali dates", () => {
+        expect(dateRange("1402/01/01", undefined, "jYYYY/jMM/jDD")).toEqual(
+            createOperator("gte", "2023-03-21")
+        );
+    });
+});
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createPoller } from "../../packages/lister/utils";
+
+describe("createPoller", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("runs the task every interval", async () => {
+        const task = vi.fn(() => Promise.resolve());
+        const poller = createPoller(task, 100);
+        poller.schedule();
+
+        await vi.advanceTimersByTimeAsync(99);
+        expect(task).toHaveBeenCalledTimes(0);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(task).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(100);
+        expect(task).toHaveBeenCalledTimes(2);
+
+        poller.stop();
+        await vi.advanceTimersByTimeAsync(500);
+        expect(task).toHaveBeenCalledTimes(2);
+    });
+
+    it("waits for slow tasks before scheduling the next run", async () => {
+        let running = 0;
+        let overlapped = false;
+        const task = vi.fn(async () => {
+            overlapped ||= running > 0;
+            running++;
+            await new Promise((resolve) => setTimeout(resolve, 250));
+            running--;
+        });
+        const poller = createPoller(task, 100);
+        poller.schedule();
+
+        await vi.advanceTimersByTimeAsync(100);
+        expect(task).toHaveBeenCalledTimes(1);
+
+        // Scheduling again while running is ignored
+        poller.schedule();
+        await vi.advanceTimersByTimeAsync(300);
+        expect(task).toHaveBeenCalledTimes(1);
+
+        // Next run starts an interval after the previous one finished
+        await vi.advanceTimersByTimeAsync(50);
+        expect(task).toHaveBeenCalledTimes(2);
+        expect(overlapped).toBe(false);
+        poller.stop();
+    });
+
+    it("keeps polling after failures", async () => {
+        const task = vi.fn(() => Promise.reject(new Error("fail")));
+        const poller = createPoller(task, 100);
+        poller.schedule();
+
+        await vi.advanceTimersByTimeAsync(200);
+        expect(task).toHaveBeenCalledTimes(2);
+        poller.stop();
+    });
+
+    it("pauses and catches up once resumed", async () => {
+        let paused = false;
+        const task = vi.fn(() => Promise.resolve());
+        const poller = createPoller(task, 100, () => paused);
+        poller.schedule();
+
+        await vi.advanceTimersByTimeAsync(100);
+        expect(task).toHaveBeenCalledTimes(1);
+
+        paused = true;
+        poller.schedule();
+        await vi.advanceTimersByTimeAsync(500);
+        expect(task).toHaveBeenCalledTimes(1);
+
+        // Overdue run starts right away
+        paused = false;
+        poller.schedule();
+        await vi.advanceTimersByTimeAsync(0);
+        expect(task).toHaveBeenCalledTimes(2);
+        poller.stop();
+    });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { createQueue } from "../../packages/lister/utils";
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 1));
+
+describe("createQueue", () => {
+    it("runs tasks in order", async () => {
+        const queue = createQueue();
+        const order: number[] = [];
+
+        await Promise.all([
+            queue.run(async () => {
+                await tick();
+                order.push(1);
+            }),
+            queue.run(async () => {
+                order.push(2);
+            }),
+        ]);
+
+        expect(order).toEqual([1, 2]);
+    });
+
+    it("continues after failed tasks", async () => {
+        const queue = createQueue();
+        const failed = queue.run(() => Promise.reject(new Error("fail")));
+        const next = queue.run(() => Promise.resolve("ok"));
+
+        await expect(failed).rejects.toThrow("fail");
+        await expect(next).resolves.toBe("ok");
+    });
+
+    it("coalesces queued tasks", async () => {
+        const queue = createQueue();
+        const inputs: string[][] = [];
+        const task = (input: string[]) => {
+            inputs.push(input);
+            return Promise.resolve(input.join(""));
+        };
+        const merge = (prev: string[], next: string[]) => [...prev, ...next];
+
+        const blocker = queue.run(tick);
+        const a = queue.coalesce("apply", ["a"], merge, task);
+        const b = queue.coalesce("apply", ["b"], merge, task);
+        await blocker;
+
+        expect(await a).toBe("ab");
+        expect(await b).toBe("ab");
+
+        const c = queue.coalesce("apply", ["c"], merge, task);
+        expect(await c).toBe("c");
+        expect(inputs).toEqual([["a", "b"], ["c"]]);
+    });
+
+    it("never coalesces across tasks queued in between", async () => {
+        const queue = createQueue();
+        const order: string[] = [];
+        const task = (input: string[]) => {
+            order.push(input.join(""));
+            return Promise.resolve();
+        };
+        const merge = (prev: string[], next: string[]) => [...prev, ...next];
+
+        const blocker = queue.run(tick);
+        const a = queue.coalesce("apply", ["a"], merge, task);
+        const reset = queue.run(async () => {
+            order.push("reset");
+        });
+        const b = queue.coalesce("apply", ["b"], merge, task);
+        const c = queue.coalesce("apply", ["c"], merge, task);
+        await Promise.all([blocker, a, reset, b, c]);
+
+        expect(order).toEqual(["a", "reset", "bc"]);
+    });
+});
@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+import {
+    emptyResult,
+    parseResult,
+    resolveResponseAdapter,
+} from "../../packages/lister/utils";
+
+describe("parseResult", () => {
+    it("returns empty result for invalid response", () => {
+        expect(parseResult(null)).toEqual(emptyResult());
+        expect(parseResult([1, 2])).toEqual(emptyResult());
+        expect(parseResult("data")).toEqual(emptyResult());
+    });
+
+    it("parses data and aggregation fields", () => {
+        const result = parseResult({
+            data: [{ id: 1 }, { id: 2 }],
+            total: 12,
+            pages: 6,
+            from: 3,
+            to: 4,
+        });
+        expect(result.records).toEqual([{ id: 1 }, { id: 2 }]);
+        expect(result.total).toBe(12);
+        expect(result.pages).toBe(6);
+        expect(result.from).toBe(3);
+        expect(result.to).toBe(4);
+    });
+
+    it("collects unknown keys into meta", () => {
+        const result = parseResult({ data: [], page: 2, summary: { sum: 5 } });
+        expect(result.meta).toEqual({ summary: { sum: 5 } });
+    });
+
+    it("falls back to zero for invalid numbers", () => {
+        const result = parseResult({ total: "abc", pages: -1 });
+        expect(result.total).toBe(0);
+        expect(result.pages).toBe(0);
+        expect(result.records).toEqual([]);
+    });
+});
+
+describe("parseResult nextCursor", () => {
+    it("parses next cursor", () => {
+        expect(parseResult({ data: [], nextCursor: "c2" }).nextCursor).toBe(
+            "c2"
+        );
+        expect(parseResult({ data: [] }).nextCursor).toBe("");
+    });
+});
+
+describe("parseResult adapters", () => {
+    const params = { page: 1, limit: 10 };
+    const parse = (
+        format: Parameters<typeof resolveResponseAdapter>[0],
+        v: unknown
+    ) => parseResult(v, resolveResponseAdapter(format), params);
+
+    it("computes missing pagination fields", () => {
+        const result = parseResult(
+            { data: [1, 2, 3], total: 23 },
+            resolveResponseAdapter(),
+            { page: 3, limit: 10 }
+        );
+        expect(result.pages).toBe(3);
+        expect(result.from).toBe(21);
+        expect(result.to).toBe(23);
+    });
+
+    it("parses laravel paginators", () => {
+        const plain = parse("laravel", {
+            data: [1, 2],
+            current_page: 2,
+            per_page: 2,
+            total: 5,
+            last_page: 3,
+            next_page_url: "/?page=3",
+            summary: 1,
+        });
+        expect(plain).toMatchObject({ total: 5, pages: 3, from: 3, to: 4 });
+        expect(plain.meta).toEqual({ summary: 1 });
+
+        const resource = parse("laravel", {
+            data: [1],
+            links: { next: null },
+            meta: { current_page: 1, per_page: 15, total: 1, extra: true },
+        });
+        expect(resource).toMatchObject({ total: 1, pages: 1, from: 1, to: 1 });
+        expect(resource.meta).toEqual({ extra: true });
+    });
+
+    it("parses json:api documents", () => {
+        const result = parse("jsonapi", {
+            data: [{ id: "1", type: "users" }],
+            meta: { page: { currentPage: 2, perPage: 1, total: 4 }, took: 3 },
+            links: { next: "/users?page[number]=3" },
+        });
+        expect(result.records).toEqual([{ id: "1", type: "users" }]);
+        expect(result).toMatchObject({ total: 4, pages: 4, from: 2, to: 2 });
+        expect(result.meta).toEqual({
+            links: { next: "/users?page[number]=3" },
+            took: 3,
+        });
+    });
+
+    it("parses spring pages", () => {
+        const result = parse("spring", {
+            content: ["a", "b"],
+            totalElements: 12,
+            totalPages: 6,
+            number: 1,
+            size: 2,
+            first: false,
+        });
+        expect(result).toMatchObject({ total: 12, pages: 6, from: 3, to: 4 });
+        expect(result.meta).toEqual({});
+
+        const model = parse("spring", {
+            _embedded: { users: ["a"] },
+            page: { size: 20, number: 0, totalElements: 1, totalPages: 1 },
+        });
+        expect(model.records).toEqual(["a"]);
+        expect(model).toMatchObject({ total: 1, from: 1, to: 1 });
+    });
+
+    it("parses graphql connections", () => {
+        const result = parse("graphql", {
+            data: {
+                users: {
+                    edges: [{ node: { id: 1 }, cursor: "a" }],
+                    pageInfo: { hasNextPage: true, endCursor: "a" },
+                    totalCount: 8,
+                },
+            },
+        });
+        expect(result.records).toEqual([{ id: 1 }]);
+        expect(result.total).toBe(8);
+        expect(result.nextCursor).toBe("a");
+
+        const last = parse("graphql", {
+            nodes: [{ id: 2 }],
+            pageInfo: { hasNextPage: false, endCursor: "b" },
+        });
+        expect(last.records).toEqual([{ id: 2 }]);
+        expect(last.nextCursor).toBe("");
+        expect(parse("graphql", { data: null })).toEqual(emptyResult());
+    });
+
+    it("accepts custom adapters", () => {
+        const result = parse(
+            (v) => ({ records: (v as { items: unknown[] }).items, total: 1 }),
+            { items: [1] }
+        );
+        expect(result).toMatchObject({ records: [1], total: 1, pages: 1 });
+    });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import {
+    coerceFilter,
+    coerceFilters,
+    decode,
+} from "../../packages/lister/utils";
+import type { FilterSchema } from "../../packages/lister";
+
+const schema: FilterSchema = {
+    code: { type: "string" },
+    age: { type: "number" },
+    active: { type: "boolean", default: true },
+    status: { type: "string", values: ["open", "closed"] },
+    tags: { type: "string", shape: "array" },
+    price: { type: "number", shape: "range" },
+};
+
+describe("coerceFilter", () => {
+    it("coerces primitives", () => {
+        expect(coerceFilter("007", schema.code!)).toBe("007");
+        expect(coerceFilter("12", schema.age!)).toBe(12);
+        expect(coerceFilter("0", schema.active!)).toBe(false);
+    });
+
+    it("falls back to default on invalid value", () => {
+        expect(coerceFilter("abc", schema.active!)).toBe(true);
+        expect(coerceFilter("abc", schema.age!)).toBeUndefined();
+    });
+
+    it("rejects values not allowed", () => {
+        expect(coerceFilter("open", schema.status!)).toBe("open");
+        expect(coerceFilter("pending", schema.status!)).toBeUndefined();
+    });
+
+    it("coerces arrays", () => {
+        expect(coerceFilter(["a", 1], schema.tags!)).toEqual(["a", "1"]);
+        expect(coerceFilter("a", schema.tags!)).toEqual(["a"]);
+    });
+
+    it("coerces ranges", () => {
+        expect(
+            coerceFilter({ min: "1", max: "5", x: 3 }, schema.price!)
+        ).toEqual({ min: 1, max: 5 });
+        expect(coerceFilter({ min: 5, max: 1 }, schema.price!)).toBeUndefined();
+    });
+});
+
+describe("coerceFilters", () => {
+    it("drops unknown filters", () => {
+        expect(coerceFilters({ age: "3", unknown: 1 }, schema)).toEqual({
+            age: 3,
+        });
+    });
+});
+
+describe("decode with schema", () => {
+    it("keeps declared types", () => {
+        const params = decode(
+            "code=007&age=7&tags=a%252Cb,c&price=min:1,max:9&utm=x",
+            schema
+        );
+        expect(params.filters).toEqual({
+            code: "007",
+            age: 7,
+            tags: ["a,b", "c"],
+            price: { min: 1, max: 9 },
+        });
+    });
+});
+
+describe("decode with typed schema", () => {
+    it("types filters after the schema", () => {
+        const typed = {
+            age: { type: "number" },
+            tags: { type: "string", shape: "array" },
+        } satisfies FilterSchema;
+
+        const { filters } = decode("age=7&tags=a,b", typed);
+        const age: number | undefined = filters.age;
+        const tags: string[] | undefined = filters.tags;
+        expect(age).toBe(7);
+        expect(tags).toEqual(["a", "b"]);
+    });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import {
+    defaultRowId,
+    emptySelection,
+    filterSignature,
+    isRowSelected,
+    selectAll,
+    selectionCount,
+    selectRows,
+} from "../../packages/lister/utils";
+
+describe("selectRows", () => {
+    it("toggles rows in include mode", () => {
+        let selection = selectRows(emptySelection(), [1, 2]);
+        expect(selection.ids).toEqual([1, 2]);
+
+        selection = selectRows(selection, [2]);
+        expect(isRowSelected(selection, 1)).toBe(true);
+        expect(isRowSelected(selection, 2)).toBe(false);
+        expect(selectionCount(selection, 50)).toBe(1);
+    });
+
+    it("keeps an exclusion set in all matching mode", () => {
+        let selection = selectAll("sig");
+        expect(isRowSelected(selection, 7)).toBe(true);
+
+        selection = selectRows(selection, [7], false);
+        expect(selection.ids).toEqual([7]);
+        expect(isRowSelected(selection, 7)).toBe(false);
+        expect(selectionCount(selection, 50)).toBe(49);
+
+        selection = selectRows(selection, [7], true);
+        expect(selection.ids).toEqual([]);
+    });
+
+    it("returns the same selection when unchanged", () => {
+        const selection = selectRows(emptySelection(), [1], true);
+        expect(selectRows(selection, [1], true)).toBe(selection);
+    });
+});
+
+describe("filterSignature", () => {
+    it("ignores pagination and sorting", () => {
+        const base = { search: "a", filters: { status: "open" } };
+        expect(
+            filterSignature({ ...base, page: 2, limit: 5 } as typeof base)
+        ).toBe(filterSignature(base));
+        expect(filterSignature({ ...base, search: "b" })).not.toBe(
+            filterSignature(base)
+        );
+    });
+});
+
+describe("defaultRowId", () => {
+    it("reads the id property", () => {
+        expect(defaultRowId({ id: 3 })).toBe(3);
+        expect(defaultRowId({ id: "x" })).toBe("x");
+        expect(defaultRowId({})).toBe("");
+        expect(defaultRowId(null)).toBe("");
+    });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import {
+    createMemoryStorage,
+    isListerStorageEvent,
+    resolveStorage,
+} from "../../packages/lister/utils";
+
+describe("createMemoryStorage", () => {
+    it("implements the storage api", () => {
+        const storage = createMemoryStorage();
+        storage.setItem("a", "1");
+        storage.setItem("b", "2");
+
+        expect(storage.getItem("a")).toBe("1");
+        expect(storage.getItem("x")).toBeNull();
+        expect(storage.length).toBe(2);
+        expect(storage.key(1)).toBe("b");
+
+        storage.removeItem("a");
+        expect(storage.length).toBe(1);
+
+        storage.clear();
+        expect(storage.length).toBe(0);
+    });
+});
+
+describe("resolveStorage", () => {
+    it("resolves storage options", () => {
+        const custom = createMemoryStorage();
+        expect(resolveStorage(custom)).toBe(custom);
+        expect(resolveStorage("memory")).toBe(resolveStorage("memory"));
+    });
+
+    it("skips browser storages outside of the browser", () => {
+        expect(resolveStorage("local")).toBeUndefined();
+        expect(resolveStorage("session")).toBeUndefined();
+    });
+});
+
+describe("isListerStorageEvent", () => {
+    const storage = createMemoryStorage();
+    const keys = ["limit", "sorts"];
+
+    it("matches watched keys of the lister", () => {
+        const event = (key: string | null) => ({ key, storageArea: storage });
+
+        expect(
+            isListerStorageEvent(
+                event("users::lister::limit"),
+                storage,
+                "users",
+                keys
+            )
+        ).toBe(true);
+        expect(
+            isListerStorageEvent(
+                event("users::lister::views"),
+                storage,
+                "users",
+                keys
+            )
+        ).toBe(false);
+        expect(
+            isListerStorageEvent(
+                event("posts::lister::limit"),
+                storage,
+                "users",
+                keys
+            )
+        ).toBe(false);
+        expect(isListerStorageEvent(event(null), storage, "users", keys)).toBe(
+            true
+        );
+    });
+
+    it("ignores other storages", () => {
+        const event = {
+            key: "users::lister::limit",
+            storageArea: createMemoryStorage(),
+        };
+
+        expect(isListerStorageEvent(event, storage, "users", keys)).toBe(false);
+        expect(isListerStorageEvent(event, undefined, "users", keys)).toBe(
+            false
+        );
+        expect(isListerStorageEvent(event, storage, "", keys)).toBe(false);
+    });
+});
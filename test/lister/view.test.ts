@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import {
+    decode,
+    encodeView,
+    parseViewLink,
+    parseViews,
+    upsertView,
+} from "../../packages/lister/utils";
+
+describe("encodeView", () => {
+    it("drops page and cursor", () => {
+        const query = encodeView({
+            page: 3,
+            limit: 10,
+            search: "john",
+            sorts: [],
+            filters: { status: "open" },
+            cursor: "c1",
+        });
+        expect(query).toBe("limit=10&search=john&status=open");
+    });
+});
+
+describe("parseViewLink", () => {
+    it("extracts and normalizes shared links", () => {
+        const parse = (link: string) => parseViewLink(link, (q) => decode(q));
+
+        expect(parse("https://app.io/tickets?page=2&status=open#top")).toBe(
+            "status=open"
+        );
+        expect(parse("?search=a")).toBe("search=a");
+        expect(parse("limit=5")).toBe("limit=5");
+    });
+});
+
+describe("parseViews", () => {
+    it("drops malformed views", () => {
+        const raw = JSON.stringify([
+            { name: "open", query: "status=open" },
+            { name: "", query: "a=1" },
+            { name: "bad" },
+            "x",
+        ]);
+        expect(parseViews(raw)).toEqual([
+            { name: "open", query: "status=open" },
+        ]);
+        expect(parseViews("{invalid")).toEqual([]);
+        expect(parseViews(undefined)).toEqual([]);
+    });
+});
+
+describe("upsertView", () => {
+    it("replaces existing views in place", () => {
+        const views = [
+            { name: "a", query: "x=1" },
+            { name: "b", query: "x=2" },
+        ];
+        expect(upsertView(views, { name: "a", query: "x=3" })).toEqual([
+            { name: "a", query: "x=3" },
+            { name: "b", query: "x=2" },
+        ]);
+        expect(upsertView(views, { name: "c", query: "" })).toHaveLength(3);
+    });
+});
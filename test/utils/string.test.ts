@@ -2,6 +2,7 @@ import { describe, expect, it } from "vitest";
 import {
     concat,
     mapValue,
+    normalizeText,
     slugify,
     slugifyUnicode,
     truncate,
@@ -57,3 +58,18 @@ describe("mapValue", () => {
         expect(mapValue("c", { a: "A" })).toBe("c");
     });
 });
+
+describe("normalizeText", () => {
+    it("unifies arabic and persian characters", () => {
+        expect(normalizeText("علي كريمي")).toBe("علی کریمی");
+        expect(normalizeText("مدرسة")).toBe("مدرسه");
+        expect(normalizeText("أحمد")).toBe("احمد");
+    });
+    it("normalizes digits, diacritics and whitespace", () => {
+        expect(normalizeText("۱۲٣")).toBe("123");
+        expect(normalizeText("مُحَمَّد")).toBe("محمد");
+        expect(normalizeText("می‌روم")).toBe("میروم");
+        expect(normalizeText("  Hello   World ")).toBe("hello world");
+        expect(normalizeText(null)).toBe("");
+    });
+});